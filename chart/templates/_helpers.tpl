@@ -107,3 +107,10 @@ Get cert-manager issuer name
 {{- include "image-replicator.fullname" . }}-issuer
 {{- end }}
 {{- end }}
+
+{{/*
+Whether any configuration file is rendered into the config ConfigMap
+*/}}
+{{- define "image-replicator.configEnabled" -}}
+{{- if or .Values.registryPolicy .Values.targetMappings .Values.imageExtraction .Values.failurePolicyRules .Values.requesterPolicy }}true{{- end }}
+{{- end }}
@@ -1,32 +1,65 @@
 import { describe, test, expect, mock, beforeEach } from "bun:test";
-import { handleAdmissionReview } from "./admission";
-import { RegistryClient } from "../services/registry-client";
+import { handleAdmissionReview, handleMutationReview, createErrorResponse } from "./admission";
+import { RegistryClient, DEADLINE_EXCEEDED_ERROR } from "../services/registry-client";
+import { RegistryPolicy } from "../services/registry-policy";
+import { MutableTagPolicy } from "../services/tag-policy";
+import { TargetMappings } from "../services/target-mappings";
+import { ImageExtractionRules } from "../services/image-extraction";
+import { FailurePolicy } from "../services/failure-policy";
+import { RequesterPolicy } from "../services/requester-policy";
+import { InMemoryRegistryBackend } from "../services/memory-backend";
 import type { AdmissionReviewRequest, RegistryAuthConfig } from "../types";
 
+interface TestRequestOptions {
+  kind?: string;
+  namespace?: string;
+  userInfo?: AdmissionReviewRequest["request"]["userInfo"];
+  // Images of the old object on UPDATE, one container each
+  oldImages?: string[];
+  dryRun?: boolean;
+  apiVersion?: string;
+  uid?: string;
+  subResource?: string;
+}
+
+// Helper function to create a Pod with one container per image
+function createPod(images: string[]): any {
+  return {
+    apiVersion: "v1",
+    kind: "Pod",
+    metadata: { name: "test-pod" },
+    spec: { containers: images.map((image, i) => ({ name: `c${i}`, image })) },
+  };
+}
+
 // Helper function to create a minimal admission review request for testing
+// Pass either the object or the images of a Pod
 function createTestRequest(
   operation: "CREATE" | "UPDATE" | "DELETE",
   object: any,
-  kind: string = "Pod"
+  options: TestRequestOptions = {}
 ): AdmissionReviewRequest {
+  const kind = options.kind || "Pod";
   return {
-    apiVersion: "admission.k8s.io/v1",
+    apiVersion: options.apiVersion || "admission.k8s.io/v1",
     kind: "AdmissionReview",
     request: {
-      uid: "test-uid-123",
+      uid: options.uid || "test-uid-123",
       kind: { kind, group: "", version: "v1" },
       resource: { group: "", version: "v1", resource: "pods" },
       requestKind: { kind, group: "", version: "v1" },
       requestResource: { group: "", version: "v1", resource: "pods" },
-      namespace: "default",
+      subResource: options.subResource,
+      namespace: options.namespace || "default",
       operation,
-      userInfo: {
+      userInfo: options.userInfo || {
         username: "test-user",
         uid: "test-user-uid",
         groups: ["system:authenticated"],
       },
-      object,
-      dryRun: false,
+      object: Array.isArray(object) ? createPod(object) : object,
+      oldObject: options.oldImages && createPod(options.oldImages),
+      dryRun: options.dryRun || false,
     },
   };
 }
@@ -75,7 +108,7 @@ describe("handleAdmissionReview", () => {
           },
           dryRun: false,
           subResource: "scale",
-        } as any,
+        },
       };
 
       const response = await handleAdmissionReview(request, registryClient);
@@ -83,6 +116,40 @@ describe("handleAdmissionReview", () => {
       expect(response.response.allowed).toBe(true);
       expect(response.response.uid).toBe("test-uid-123");
     });
+
+    test("should validate ephemeral containers added through their subresource", async () => {
+      const pod = createPod(["nginx:1.25"]);
+      pod.spec.ephemeralContainers = [{ name: "debugger", image: "busybox:bogus" }];
+      const request = createTestRequest("UPDATE", pod, { oldImages: ["nginx:1.25"], subResource: "ephemeralcontainers" });
+      registryClient.checkImages = mock(() =>
+        Promise.resolve([
+          { image: "nginx:1.25", exists: true, registry: "docker.io" },
+          { image: "busybox:bogus", exists: false, registry: "docker.io" },
+        ])
+      );
+
+      const response = await handleAdmissionReview(request, registryClient);
+
+      expect(response.response.allowed).toBe(false);
+      expect(response.response.status?.message).toContain("busybox:bogus");
+    });
+
+    test("should rewrite ephemeral containers added through their subresource", async () => {
+      registryClient = new RegistryClient(authConfig, "myregistry.io");
+      const pod = createPod([]);
+      pod.spec.ephemeralContainers = [{ name: "debugger", image: "busybox:1.36" }];
+      const request = createTestRequest("UPDATE", pod, { subResource: "ephemeralcontainers" });
+      registryClient.checkImages = mock(() =>
+        Promise.resolve([{ image: "busybox:1.36", exists: true, registry: "myregistry.io" }])
+      );
+
+      const response = await handleMutationReview(request, registryClient);
+
+      expect(response.response.allowed).toBe(true);
+      expect(JSON.parse(Buffer.from(response.response.patch!, "base64").toString("utf-8"))).toEqual([
+        { op: "replace", path: "/spec/ephemeralContainers/0/image", value: "myregistry.io/library/busybox:1.36" },
+      ]);
+    });
   });
 
   describe("operation filtering", () => {
@@ -441,7 +508,7 @@ describe("handleAdmissionReview", () => {
       const response = await handleAdmissionReview(request, registryClient);
 
       expect(response.response.allowed).toBe(true);
-      expect(registryClient.cloneImage).toHaveBeenCalledWith("nginx:latest", "myregistry.io");
+      expect(registryClient.cloneImage).toHaveBeenCalledWith("nginx:latest", "myregistry.io", undefined);
     });
 
     test("should deny when cloning fails", async () => {
@@ -542,4 +609,1121 @@ describe("handleAdmissionReview", () => {
       expect(response.response.uid).toBe("unique-uid-789");
     });
   });
+
+  describe("mutation", () => {
+    function decodePatch(patch?: string): any[] {
+      return JSON.parse(Buffer.from(patch!, "base64").toString("utf-8"));
+    }
+
+    test("should rewrite all container images to the target registry", async () => {
+      registryClient = new RegistryClient(authConfig, "myregistry.io");
+      const request = createTestRequest(
+        "CREATE",
+        {
+          apiVersion: "apps/v1",
+          kind: "Deployment",
+          metadata: { name: "web" },
+          spec: {
+            template: {
+              spec: {
+                containers: [{ name: "nginx", image: "nginx:1.25" }],
+                initContainers: [{ name: "init", image: "ghcr.io/org/init:v1" }],
+                ephemeralContainers: [{ name: "debug", image: "busybox" }],
+              },
+            },
+          },
+        },
+        { kind: "Deployment" }
+      );
+
+      registryClient.checkImages = mock(() =>
+        Promise.resolve([
+          { image: "nginx:1.25", exists: true, registry: "myregistry.io" },
+          { image: "ghcr.io/org/init:v1", exists: true, registry: "myregistry.io" },
+          { image: "busybox", exists: true, registry: "myregistry.io" },
+        ])
+      );
+
+      const response = await handleMutationReview(request, registryClient);
+
+      expect(response.response.allowed).toBe(true);
+      expect(response.response.patchType).toBe("JSONPatch");
+      expect(decodePatch(response.response.patch)).toEqual([
+        { op: "replace", path: "/spec/template/spec/containers/0/image", value: "myregistry.io/library/nginx:1.25" },
+        { op: "replace", path: "/spec/template/spec/initContainers/0/image", value: "myregistry.io/org/init:v1" },
+        { op: "replace", path: "/spec/template/spec/ephemeralContainers/0/image", value: "myregistry.io/library/busybox:latest" },
+      ]);
+    });
+
+    test("should rewrite images after cloning them", async () => {
+      registryClient = new RegistryClient(authConfig, "myregistry.io");
+      const request = createTestRequest("CREATE", ["nginx:latest"]);
+
+      registryClient.checkImages = mock(() =>
+        Promise.resolve([{ image: "nginx:latest", exists: false, registry: "myregistry.io" }])
+      );
+      registryClient.cloneImage = mock(() => Promise.resolve({ success: true }));
+
+      const response = await handleMutationReview(request, registryClient);
+
+      expect(registryClient.cloneImage).toHaveBeenCalledWith("nginx:latest", "myregistry.io", undefined);
+      expect(decodePatch(response.response.patch)).toEqual([
+        { op: "replace", path: "/spec/containers/0/image", value: "myregistry.io/library/nginx:latest" },
+      ]);
+    });
+
+    test("should not patch images already in the target registry", async () => {
+      registryClient = new RegistryClient(authConfig, "myregistry.io");
+      const request = createTestRequest("CREATE", ["myregistry.io/library/nginx:latest"]);
+
+      registryClient.checkImages = mock(() =>
+        Promise.resolve([{ image: "myregistry.io/library/nginx:latest", exists: true, registry: "myregistry.io" }])
+      );
+
+      const response = await handleMutationReview(request, registryClient);
+
+      expect(response.response.allowed).toBe(true);
+      expect(response.response.patch).toBeUndefined();
+      expect(response.response.patchType).toBeUndefined();
+    });
+
+    test("should not patch without a target registry", async () => {
+      const request = createTestRequest("CREATE", ["nginx:latest"]);
+
+      registryClient.checkImages = mock(() =>
+        Promise.resolve([{ image: "nginx:latest", exists: true, registry: "docker.io" }])
+      );
+
+      const response = await handleMutationReview(request, registryClient);
+
+      expect(response.response.allowed).toBe(true);
+      expect(response.response.patch).toBeUndefined();
+    });
+
+    test("should not patch denied requests", async () => {
+      registryClient = new RegistryClient(authConfig, "myregistry.io");
+      const request = createTestRequest("CREATE", ["nginx:latest"]);
+
+      registryClient.checkImages = mock(() =>
+        Promise.resolve([{ image: "nginx:latest", exists: false, registry: "myregistry.io" }])
+      );
+      registryClient.cloneImage = mock(() => Promise.resolve({ success: false, error: "denied" }));
+
+      const response = await handleMutationReview(request, registryClient);
+
+      expect(response.response.allowed).toBe(false);
+      expect(response.response.patch).toBeUndefined();
+    });
+  });
+
+  describe("digest pinning", () => {
+    const digest = "sha256:" + "a".repeat(64);
+
+    function decodePatch(patch?: string): any[] {
+      return JSON.parse(Buffer.from(patch!, "base64").toString("utf-8"));
+    }
+
+    test("should pin target reference to the verified digest", async () => {
+      registryClient = new RegistryClient(authConfig, "myregistry.io");
+      registryClient.checkImages = mock(() =>
+        Promise.resolve([{ image: "nginx:1.25", exists: true, registry: "myregistry.io", digest }])
+      );
+
+      const response = await handleMutationReview(createTestRequest("CREATE", ["nginx:1.25"]), registryClient, {
+        digestPinning: { enabled: true },
+      });
+
+      expect(decodePatch(response.response.patch)).toEqual([
+        { op: "replace", path: "/spec/containers/0/image", value: `myregistry.io/library/nginx@${digest}` },
+      ]);
+    });
+
+    test("should resolve digest of cloned images", async () => {
+      registryClient = new RegistryClient(authConfig, "myregistry.io");
+      registryClient.checkImages = mock()
+        .mockResolvedValueOnce([{ image: "nginx:1.25", exists: false, registry: "myregistry.io" }])
+        .mockResolvedValueOnce([{ image: "nginx:1.25", exists: true, registry: "myregistry.io", digest }]);
+      registryClient.cloneImage = mock(() => Promise.resolve({ success: true }));
+
+      const response = await handleMutationReview(createTestRequest("CREATE", ["nginx:1.25"]), registryClient, {
+        digestPinning: { enabled: true },
+      });
+
+      expect(registryClient.checkImages).toHaveBeenCalledTimes(2);
+      expect(decodePatch(response.response.patch)[0].value).toBe(`myregistry.io/library/nginx@${digest}`);
+    });
+
+    test("should pin source image without target registry", async () => {
+      registryClient.checkImages = mock(() =>
+        Promise.resolve([{ image: "ghcr.io/org/app:v1", exists: true, registry: "ghcr.io", digest }])
+      );
+
+      const response = await handleMutationReview(createTestRequest("CREATE", ["ghcr.io/org/app:v1"]), registryClient, {
+        digestPinning: { enabled: true },
+      });
+
+      expect(decodePatch(response.response.patch)[0].value).toBe(`ghcr.io/org/app@${digest}`);
+    });
+
+    test("should only pin in selected namespaces", async () => {
+      registryClient.checkImages = mock(() =>
+        Promise.resolve([{ image: "ghcr.io/org/app:v1", exists: true, registry: "ghcr.io", digest }])
+      );
+      const options = { digestPinning: { enabled: false, namespaces: ["prod-*"] } };
+
+      const prodRequest = createTestRequest("CREATE", ["ghcr.io/org/app:v1"], { namespace: "prod-eu" });
+      const devRequest = createTestRequest("CREATE", ["ghcr.io/org/app:v1"], { namespace: "dev" });
+
+      const pinned = await handleMutationReview(prodRequest, registryClient, options);
+      const unpinned = await handleMutationReview(devRequest, registryClient, options);
+
+      expect(pinned.response.patch).toBeDefined();
+      expect(unpinned.response.patch).toBeUndefined();
+    });
+
+    test("should leave digest references unchanged", async () => {
+      const image = `ghcr.io/org/app@${digest}`;
+      registryClient.checkImages = mock(() =>
+        Promise.resolve([{ image, exists: true, registry: "ghcr.io", digest }])
+      );
+
+      const response = await handleMutationReview(createTestRequest("CREATE", [image]), registryClient, {
+        digestPinning: { enabled: true },
+      });
+
+      expect(response.response.patch).toBeUndefined();
+    });
+  });
+
+  describe("background replication", () => {
+    const queuedJob = {
+      sourceImage: "nginx:latest",
+      targetImage: "myregistry.io/library/nginx:latest",
+      targetRegistry: "myregistry.io",
+      state: "queued" as const,
+      enqueuedAt: Date.now(),
+    };
+
+    beforeEach(() => {
+      registryClient = new RegistryClient(authConfig, "myregistry.io");
+      registryClient.checkImages = mock(() =>
+        Promise.resolve([{ image: "nginx:latest", exists: false, registry: "myregistry.io" }])
+      );
+      registryClient.cloneImage = mock(() => Promise.resolve({ success: true }));
+      registryClient.enqueueClone = mock(() => queuedJob);
+    });
+
+    test("should queue clone and allow with warning in async-allow mode", async () => {
+      const response = await handleAdmissionReview(createTestRequest("CREATE", ["nginx:latest"]), registryClient, {
+        replicationMode: "async-allow",
+      });
+
+      expect(response.response.allowed).toBe(true);
+      expect(response.response.warnings?.[0]).toContain("being replicated");
+      expect(registryClient.enqueueClone).toHaveBeenCalledWith("nginx:latest", "myregistry.io");
+      expect(registryClient.cloneImage).not.toHaveBeenCalled();
+    });
+
+    test("should queue clone and deny in async-deny mode", async () => {
+      const response = await handleAdmissionReview(createTestRequest("CREATE", ["nginx:latest"]), registryClient, {
+        replicationMode: "async-deny",
+      });
+
+      expect(response.response.allowed).toBe(false);
+      expect(response.response.status?.message).toContain("replication in progress, retry shortly");
+      expect(response.response.status?.message).toContain("myregistry.io/library/nginx:latest");
+    });
+
+    test("should not rewrite images that are still being replicated", async () => {
+      const response = await handleMutationReview(createTestRequest("CREATE", ["nginx:latest"]), registryClient, {
+        replicationMode: "async-allow",
+      });
+
+      expect(response.response.allowed).toBe(true);
+      expect(response.response.patch).toBeUndefined();
+    });
+
+    test("should clone inline in sync mode", async () => {
+      const response = await handleAdmissionReview(createTestRequest("CREATE", ["nginx:latest"]), registryClient, {
+        replicationMode: "sync",
+      });
+
+      expect(response.response.allowed).toBe(true);
+      expect(registryClient.cloneImage).toHaveBeenCalled();
+      expect(registryClient.enqueueClone).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("registry policy", () => {
+    const registryPolicy = new RegistryPolicy({ allow: ["docker.io/library/*"] });
+
+    test("should deny images violating the policy without checking registries", async () => {
+      const request = createTestRequest("CREATE", ["nginx:latest", "ghcr.io/other/app:v1"]);
+      registryClient.checkImages = mock(() => Promise.resolve([]));
+
+      const response = await handleAdmissionReview(request, registryClient, { registryPolicy });
+
+      expect(response.response.allowed).toBe(false);
+      expect(response.response.status?.message).toContain("ghcr.io/other/app:v1");
+      expect(response.response.status?.message).toContain("allowlist");
+      expect(response.response.status?.message).not.toContain("nginx:latest");
+      expect(registryClient.checkImages).not.toHaveBeenCalled();
+    });
+
+    test("should validate images permitted by the policy", async () => {
+      const request = createTestRequest("CREATE", ["nginx:latest"]);
+      registryClient.checkImages = mock(() =>
+        Promise.resolve([{ image: "nginx:latest", exists: true, registry: "docker.io" }])
+      );
+
+      const response = await handleAdmissionReview(request, registryClient, { registryPolicy });
+
+      expect(response.response.allowed).toBe(true);
+      expect(registryClient.checkImages).toHaveBeenCalled();
+    });
+
+    test("should exempt images already rewritten to the target registry", async () => {
+      registryClient = new RegistryClient(authConfig, "myregistry.io");
+      const request = createTestRequest("CREATE", ["myregistry.io/ghcr.io/our-org/app:v1"]);
+      registryClient.checkImages = mock(() =>
+        Promise.resolve([{ image: "myregistry.io/ghcr.io/our-org/app:v1", exists: true, registry: "myregistry.io" }])
+      );
+
+      const response = await handleMutationReview(request, registryClient, {
+        registryPolicy: new RegistryPolicy({ allow: ["ghcr.io/our-org/**"] }),
+      });
+
+      expect(response.response.allowed).toBe(true);
+      expect(response.response.patch).toBeUndefined();
+    });
+
+    test("should still apply deny rules to images in the target registry", async () => {
+      registryClient = new RegistryClient(authConfig, "myregistry.io");
+      const request = createTestRequest("CREATE", ["myregistry.io/untrusted/app:v1"]);
+      registryClient.checkImages = mock(() => Promise.resolve([]));
+
+      const response = await handleAdmissionReview(request, registryClient, {
+        registryPolicy: new RegistryPolicy({ allow: ["ghcr.io/our-org/**"], deny: ["myregistry.io/untrusted/**"] }),
+      });
+
+      expect(response.response.allowed).toBe(false);
+      expect(response.response.status?.message).toContain('deny "myregistry.io/untrusted/**"');
+      expect(registryClient.checkImages).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("mutable tag policy", () => {
+    const tagPolicy = new MutableTagPolicy({
+      enforcement: "warn",
+      namespaces: [{ namespace: "prod-*", enforcement: "deny" }],
+    });
+
+    beforeEach(() => {
+      registryClient.checkImages = mock((images: string[]) =>
+        Promise.resolve(images.map((image) => ({ image, exists: true, registry: "docker.io" })))
+      );
+    });
+
+    test("should deny mutable tags in enforcing namespaces", async () => {
+      const request = createTestRequest("CREATE", ["nginx"], { namespace: "prod-eu" });
+      const response = await handleAdmissionReview(request, registryClient, { tagPolicy });
+
+      expect(response.response.allowed).toBe(false);
+      expect(response.response.status?.message).toContain("no tag specified");
+      expect(registryClient.checkImages).not.toHaveBeenCalled();
+    });
+
+    test("should warn about mutable tags in other namespaces", async () => {
+      const request = createTestRequest("CREATE", ["nginx:latest"], { namespace: "dev" });
+      const response = await handleAdmissionReview(request, registryClient, { tagPolicy });
+
+      expect(response.response.allowed).toBe(true);
+      expect(response.response.warnings).toHaveLength(1);
+      expect(response.response.warnings?.[0]).toContain('"latest"');
+    });
+
+    test("should not flag immutable tags", async () => {
+      const request = createTestRequest("CREATE", ["nginx:1.25.3"], { namespace: "prod-eu" });
+      const response = await handleAdmissionReview(request, registryClient, { tagPolicy });
+
+      expect(response.response.allowed).toBe(true);
+      expect(response.response.warnings).toBeUndefined();
+    });
+  });
+
+  describe("target mappings", () => {
+    const targetMappings = new TargetMappings([
+      { match: "docker.io/bitnami/*", target: "mirror.acr.io/thirdparty/bitnami/*" },
+    ]);
+
+    test("should clone and rewrite mapped images without a target registry", async () => {
+      registryClient = new RegistryClient(authConfig, undefined, undefined, [], { targetMappings });
+      registryClient.checkImages = mock(() =>
+        Promise.resolve([{ image: "bitnami/redis:7", exists: false, registry: "mirror.acr.io" }])
+      );
+      registryClient.cloneImage = mock(() => Promise.resolve({ success: true }));
+
+      const response = await handleMutationReview(createTestRequest("CREATE", ["bitnami/redis:7"]), registryClient);
+
+      expect(response.response.allowed).toBe(true);
+      expect(registryClient.cloneImage).toHaveBeenCalledWith("bitnami/redis:7", undefined, undefined);
+      const patch = JSON.parse(Buffer.from(response.response.patch!, "base64").toString("utf-8"));
+      expect(patch[0].value).toBe("mirror.acr.io/thirdparty/bitnami/redis:7");
+    });
+
+    test("should deny unmapped images missing from their source registry", async () => {
+      registryClient = new RegistryClient(authConfig, undefined, undefined, [], { targetMappings });
+      registryClient.checkImages = mock(() =>
+        Promise.resolve([
+          { image: "bitnami/redis:7", exists: true, registry: "mirror.acr.io" },
+          { image: "nginx:bogus", exists: false, registry: "registry-1.docker.io" },
+        ])
+      );
+      registryClient.cloneImage = mock(() => Promise.resolve({ success: true }));
+
+      const request = createTestRequest("CREATE", ["bitnami/redis:7", "nginx:bogus"]);
+      const response = await handleAdmissionReview(request, registryClient);
+
+      expect(response.response.allowed).toBe(false);
+      expect(response.response.status?.message).toContain("nginx:bogus");
+      expect(registryClient.cloneImage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("configured image extraction", () => {
+    const imageExtraction = new ImageExtractionRules([
+      { kind: "Task", paths: ["spec.steps[*].image"] },
+    ]);
+
+    test("should validate images at configured paths", async () => {
+      const request = createTestRequest(
+        "CREATE",
+        {
+          apiVersion: "tekton.dev/v1",
+          kind: "Task",
+          metadata: { name: "build" },
+          spec: { steps: [{ name: "compile", image: "golang:1.22" }] },
+        },
+        { kind: "Task" }
+      );
+      registryClient.checkImages = mock(() =>
+        Promise.resolve([{ image: "golang:1.22", exists: false, registry: "docker.io" }])
+      );
+
+      const response = await handleAdmissionReview(request, registryClient, { imageExtraction });
+
+      expect(response.response.allowed).toBe(false);
+      expect(registryClient.checkImages).toHaveBeenCalledWith(["golang:1.22"], undefined);
+    });
+
+    test("should fall back to built-in extractors for other kinds", async () => {
+      const request = createTestRequest("CREATE", ["nginx:latest"]);
+      registryClient.checkImages = mock(() =>
+        Promise.resolve([{ image: "nginx:latest", exists: true, registry: "docker.io" }])
+      );
+
+      const response = await handleAdmissionReview(request, registryClient, { imageExtraction });
+
+      expect(response.response.allowed).toBe(true);
+      expect(registryClient.checkImages).toHaveBeenCalledWith(["nginx:latest"], undefined);
+    });
+  });
+
+  describe("trust existing images", () => {
+    test("should allow updates without image changes without checking registries", async () => {
+      registryClient.checkImages = mock(() => Promise.resolve([]));
+
+      const response = await handleAdmissionReview(
+        createTestRequest("UPDATE", ["nginx:1.25"], { oldImages: ["nginx:1.25"] }),
+        registryClient,
+        { trustExistingImages: true }
+      );
+
+      expect(response.response.allowed).toBe(true);
+      expect(registryClient.checkImages).not.toHaveBeenCalled();
+    });
+
+    test("should only check images that were added", async () => {
+      registryClient.checkImages = mock(() =>
+        Promise.resolve([{ image: "redis:7", exists: true, registry: "docker.io" }])
+      );
+
+      const response = await handleAdmissionReview(
+        createTestRequest("UPDATE", ["nginx:1.25", "redis:7"], { oldImages: ["nginx:1.25"] }),
+        registryClient,
+        { trustExistingImages: true }
+      );
+
+      expect(response.response.allowed).toBe(true);
+      expect(registryClient.checkImages).toHaveBeenCalledWith(["redis:7"], undefined);
+    });
+
+    test("should only rewrite changed images when mutating", async () => {
+      registryClient = new RegistryClient(authConfig, "myregistry.io");
+      registryClient.checkImages = mock(() =>
+        Promise.resolve([{ image: "redis:7", exists: true, registry: "myregistry.io" }])
+      );
+
+      const response = await handleMutationReview(
+        createTestRequest("UPDATE", ["nginx:1.25", "redis:7"], { oldImages: ["nginx:1.25"] }),
+        registryClient,
+        { trustExistingImages: true }
+      );
+
+      const patch = JSON.parse(Buffer.from(response.response.patch!, "base64").toString("utf-8"));
+      expect(patch).toEqual([
+        { op: "replace", path: "/spec/containers/1/image", value: "myregistry.io/library/redis:7" },
+      ]);
+    });
+
+    test("should check every image when disabled", async () => {
+      registryClient.checkImages = mock(() =>
+        Promise.resolve([{ image: "nginx:1.25", exists: true, registry: "docker.io" }])
+      );
+
+      await handleAdmissionReview(createTestRequest("UPDATE", ["nginx:1.25"], { oldImages: ["nginx:1.25"] }), registryClient);
+
+      expect(registryClient.checkImages).toHaveBeenCalledWith(["nginx:1.25"], undefined);
+    });
+  });
+
+  describe("dry run", () => {
+    beforeEach(() => {
+      registryClient = new RegistryClient(authConfig, "myregistry.io");
+      registryClient.checkImages = mock(() =>
+        Promise.resolve([{ image: "nginx:1.25", exists: false, registry: "myregistry.io" }])
+      );
+      registryClient.cloneImage = mock(() => Promise.resolve({ success: true }));
+      registryClient.enqueueClone = mock(() => {
+        throw new Error("should not enqueue");
+      });
+    });
+
+    test("should report clones in warnings without cloning", async () => {
+      const request = createTestRequest("CREATE", ["nginx:1.25"], { dryRun: true });
+      const response = await handleAdmissionReview(request, registryClient);
+
+      expect(response.response.allowed).toBe(true);
+      expect(response.response.warnings).toContain(
+        "Dry run: image nginx:1.25 would be cloned to myregistry.io/library/nginx:1.25"
+      );
+      expect(registryClient.cloneImage).not.toHaveBeenCalled();
+    });
+
+    test("should not queue background replication", async () => {
+      const request = createTestRequest("CREATE", ["nginx:1.25"], { dryRun: true });
+      const response = await handleAdmissionReview(request, registryClient, { replicationMode: "async-deny" });
+
+      expect(response.response.allowed).toBe(true);
+      expect(registryClient.enqueueClone).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("denial causes", () => {
+    test("should list every failing container field", async () => {
+      const request = createTestRequest(
+        "CREATE",
+        {
+          apiVersion: "apps/v1",
+          kind: "Deployment",
+          metadata: { name: "test-deployment" },
+          spec: {
+            template: {
+              spec: {
+                containers: [
+                  { name: "app", image: "myapp:v1" },
+                  { name: "sidecar", image: "proxy:bogus" },
+                ],
+                initContainers: [
+                  { name: "migrate", image: "myapp:v1" },
+                  { name: "setup", image: "proxy:bogus" },
+                ],
+              },
+            },
+          },
+        },
+        { kind: "Deployment" }
+      );
+      registryClient.checkImages = mock(() =>
+        Promise.resolve([
+          { image: "myapp:v1", exists: true, registry: "docker.io" },
+          { image: "proxy:bogus", exists: false, registry: "docker.io" },
+        ])
+      );
+
+      const response = await handleAdmissionReview(request, registryClient);
+      const status = response.response.status!;
+
+      expect(status.reason).toBe("Forbidden");
+      expect(status.message).toContain(
+        'container "setup" (spec.template.spec.initContainers[1].image): proxy:bogus in docker.io'
+      );
+      expect(status.details?.causes).toEqual([
+        {
+          reason: "FieldValueNotFound",
+          message: "proxy:bogus in docker.io",
+          field: "spec.template.spec.containers[1].image",
+        },
+        {
+          reason: "FieldValueNotFound",
+          message: "proxy:bogus in docker.io",
+          field: "spec.template.spec.initContainers[1].image",
+        },
+      ]);
+    });
+
+    test("should mark policy violations as forbidden fields", async () => {
+      const request = createTestRequest("CREATE", ["ghcr.io/other/app:v1"]);
+
+      const response = await handleAdmissionReview(request, registryClient, {
+        registryPolicy: new RegistryPolicy({ deny: ["ghcr.io/**"] }),
+      });
+
+      expect(response.response.status?.details?.causes).toEqual([
+        expect.objectContaining({ reason: "FieldValueForbidden", field: "spec.containers[0].image" }),
+      ]);
+    });
+  });
+
+  describe("audit annotations", () => {
+    test("should record checked and cloned images with their targets", async () => {
+      registryClient = new RegistryClient(authConfig, "myregistry.io");
+      registryClient.checkImages = mock(() =>
+        Promise.resolve([
+          { image: "nginx:1.25", exists: true, registry: "myregistry.io", cached: true },
+          { image: "redis:7", exists: false, registry: "myregistry.io" },
+        ])
+      );
+      registryClient.cloneImage = mock(() => Promise.resolve({ success: true }));
+
+      const request = createTestRequest("CREATE", ["nginx:1.25", "redis:7"]);
+      const response = await handleAdmissionReview(request, registryClient);
+
+      expect(response.response.auditAnnotations).toEqual({
+        decision: "allowed",
+        reason: "validated",
+        "images-checked": "nginx:1.25,redis:7",
+        "cache-hits": "1",
+        "images-cloned": "redis:7",
+        "target-references": "nginx:1.25=myregistry.io/library/nginx:1.25,redis:7=myregistry.io/library/redis:7",
+      });
+    });
+
+    test("should record the reason of denials", async () => {
+      registryClient.checkImages = mock(() =>
+        Promise.resolve([{ image: "nginx:bogus", exists: false, registry: "docker.io" }])
+      );
+
+      const response = await handleAdmissionReview(createTestRequest("CREATE", ["nginx:bogus"]), registryClient);
+
+      expect(response.response.auditAnnotations).toMatchObject({
+        decision: "denied",
+        reason: "images_not_found",
+        "images-checked": "nginx:bogus",
+      });
+    });
+
+    test("should record skipped requests", async () => {
+      const request = createTestRequest("CREATE", ["nginx:1.25"]);
+      request.request.operation = "DELETE";
+
+      const response = await handleAdmissionReview(request, registryClient);
+
+      expect(response.response.auditAnnotations).toEqual({ decision: "skipped", reason: "operation" });
+    });
+  });
+
+  describe("AdmissionReview versions", () => {
+    for (const apiVersion of ["admission.k8s.io/v1", "admission.k8s.io/v1beta1"]) {
+      test(`should answer allowed ${apiVersion} reviews in the same version`, async () => {
+        registryClient.checkImages = mock(() =>
+          Promise.resolve([{ image: "nginx:1.25", exists: true, registry: "docker.io" }])
+        );
+
+        const request = createTestRequest("CREATE", ["nginx:1.25"], { apiVersion, uid: `uid-${apiVersion}` });
+        const response = await handleAdmissionReview(request, registryClient);
+
+        expect(response.apiVersion).toBe(apiVersion);
+        expect(response.kind).toBe("AdmissionReview");
+        expect(response.response.uid).toBe(`uid-${apiVersion}`);
+        expect(response.response.allowed).toBe(true);
+      });
+
+      test(`should answer denied ${apiVersion} reviews in the same version`, async () => {
+        registryClient.checkImages = mock(() =>
+          Promise.resolve([{ image: "nginx:bogus", exists: false, registry: "docker.io" }])
+        );
+
+        const request = createTestRequest("CREATE", ["nginx:bogus"], { apiVersion, uid: `uid-${apiVersion}` });
+        const response = await handleAdmissionReview(request, registryClient);
+
+        expect(response.apiVersion).toBe(apiVersion);
+        expect(response.response.uid).toBe(`uid-${apiVersion}`);
+        expect(response.response.allowed).toBe(false);
+      });
+
+      test(`should answer ${apiVersion} mutations in the same version`, async () => {
+        registryClient = new RegistryClient(authConfig, "myregistry.io");
+        registryClient.checkImages = mock(() =>
+          Promise.resolve([{ image: "nginx:1.25", exists: true, registry: "myregistry.io" }])
+        );
+
+        const request = createTestRequest("CREATE", ["nginx:1.25"], { apiVersion, uid: `uid-${apiVersion}` });
+        const response = await handleMutationReview(request, registryClient);
+
+        expect(response.apiVersion).toBe(apiVersion);
+        expect(response.response.uid).toBe(`uid-${apiVersion}`);
+        expect(response.response.patchType).toBe("JSONPatch");
+      });
+
+      test(`should answer ${apiVersion} errors with the request uid`, () => {
+        const request = createTestRequest("CREATE", ["nginx:1.25"], { apiVersion, uid: `uid-${apiVersion}` });
+        const response = createErrorResponse(request, new Error("boom"));
+
+        expect(response.apiVersion).toBe(apiVersion);
+        expect(response.response.uid).toBe(`uid-${apiVersion}`);
+        expect(response.response.allowed).toBe(true);
+        expect(response.response.warnings).toEqual(["Webhook error: boom"]);
+      });
+    }
+
+    test("should answer unknown versions with v1", async () => {
+      const request = createTestRequest("DELETE", {});
+      request.apiVersion = "admission.k8s.io/v2";
+
+      const response = await handleAdmissionReview(request, registryClient);
+
+      expect(response.apiVersion).toBe("admission.k8s.io/v1");
+    });
+  });
+
+  describe("admission deadline", () => {
+    test("should pass the deadline signal to checks", async () => {
+      registryClient.checkImages = mock((_images: string[], signal?: AbortSignal) => {
+        expect(signal).toBeInstanceOf(AbortSignal);
+        return Promise.resolve([{ image: "nginx:1.25", exists: true, registry: "docker.io" }]);
+      });
+
+      const request = createTestRequest("CREATE", ["nginx:1.25"]);
+      const response = await handleAdmissionReview(request, registryClient, { deadlineMs: 5000 });
+
+      expect(response.response.allowed).toBe(true);
+    });
+
+    test("should allow with a warning when checks run out of time", async () => {
+      registryClient.checkImages = mock(() =>
+        Promise.resolve([{ image: "nginx:1.25", exists: false, registry: "docker.io", error: DEADLINE_EXCEEDED_ERROR }])
+      );
+
+      const response = await handleAdmissionReview(createTestRequest("CREATE", ["nginx:1.25"]), registryClient, {
+        deadlineMs: 1000,
+        deadlineAction: "allow",
+      });
+
+      expect(response.response.allowed).toBe(true);
+      expect(response.response.warnings?.[0]).toContain("Admission deadline of 1000ms exceeded");
+      expect(response.response.auditAnnotations?.reason).toBe("deadline_exceeded");
+    });
+
+    test("should deny when configured and clones run out of time", async () => {
+      registryClient = new RegistryClient(authConfig, "myregistry.io");
+      registryClient.checkImages = mock(() =>
+        Promise.resolve([{ image: "nginx:1.25", exists: false, registry: "myregistry.io" }])
+      );
+      registryClient.cloneImage = mock(() => Promise.resolve({ success: false, error: DEADLINE_EXCEEDED_ERROR }));
+
+      const response = await handleMutationReview(createTestRequest("CREATE", ["nginx:1.25"]), registryClient, {
+        deadlineMs: 1000,
+        deadlineAction: "deny",
+      });
+
+      expect(response.response.allowed).toBe(false);
+      expect(response.response.status?.message).toContain("could be cloned, retry shortly");
+      expect(response.response.patch).toBeUndefined();
+    });
+
+    test("should still deny missing images when other checks run out of time", async () => {
+      registryClient.checkImages = mock(() =>
+        Promise.resolve([
+          { image: "nginx:1.25", exists: false, registry: "docker.io", error: DEADLINE_EXCEEDED_ERROR },
+          { image: "ghcr.io/org/missing:v1", exists: false, registry: "ghcr.io" },
+        ])
+      );
+      const request = createTestRequest("CREATE", ["nginx:1.25", "ghcr.io/org/missing:v1"]);
+
+      const response = await handleAdmissionReview(request, registryClient, { deadlineMs: 1000, deadlineAction: "allow" });
+
+      expect(response.response.allowed).toBe(false);
+      expect(response.response.status?.message).toContain("ghcr.io/org/missing:v1");
+      expect(response.response.auditAnnotations?.reason).toBe("images_not_found");
+    });
+
+    test("should rewrite clones that finished in time", async () => {
+      registryClient = new RegistryClient(authConfig, "myregistry.io");
+      registryClient.checkImages = mock(() =>
+        Promise.resolve([
+          { image: "nginx:1.25", exists: false, registry: "myregistry.io" },
+          { image: "redis:7", exists: false, registry: "myregistry.io" },
+        ])
+      );
+      registryClient.cloneImage = mock((image: string) =>
+        Promise.resolve(image === "nginx:1.25" ? { success: true } : { success: false, error: DEADLINE_EXCEEDED_ERROR })
+      );
+      const request = createTestRequest("CREATE", ["nginx:1.25", "redis:7"]);
+
+      const response = await handleMutationReview(request, registryClient, { deadlineMs: 1000, deadlineAction: "allow" });
+
+      expect(response.response.allowed).toBe(true);
+      expect(response.response.warnings?.[0]).toContain("could be cloned, allowed anyway: redis:7");
+      expect(response.response.auditAnnotations?.reason).toBe("deadline_exceeded");
+      expect(JSON.parse(Buffer.from(response.response.patch!, "base64").toString("utf-8"))).toEqual([
+        { op: "replace", path: "/spec/containers/0/image", value: "myregistry.io/library/nginx:1.25" },
+      ]);
+    });
+
+    test("should let a timeout action in the failure policy override the deadline action", async () => {
+      registryClient.checkImages = mock(() =>
+        Promise.resolve([{ image: "nginx:1.25", exists: false, registry: "docker.io", error: DEADLINE_EXCEEDED_ERROR }])
+      );
+      const failurePolicy = new FailurePolicy({ default: { timeout: "deny" } });
+
+      const denied = await handleAdmissionReview(createTestRequest("CREATE", ["nginx:1.25"]), registryClient, {
+        deadlineMs: 1000,
+        deadlineAction: "allow",
+        failurePolicy,
+      });
+      const allowed = await handleAdmissionReview(createTestRequest("CREATE", ["nginx:1.25"]), registryClient, {
+        deadlineMs: 1000,
+        deadlineAction: "deny",
+        failurePolicy: new FailurePolicy({ default: { "*": "allow" } }),
+      });
+
+      expect(denied.response.allowed).toBe(false);
+      expect(denied.response.auditAnnotations?.reason).toBe("deadline_exceeded");
+      expect(allowed.response.allowed).toBe(true);
+    });
+  });
+
+  describe("failure policy", () => {
+    const failurePolicy = new FailurePolicy({
+      namespaces: [
+        { namespaces: ["prod-*"], actions: { "*": "deny" } },
+        { namespaces: ["dev-*"], actions: { "*": "allow", "not-found": "deny" } },
+      ],
+    });
+
+    test("should fail open on registry errors where the policy allows", async () => {
+      registryClient.checkImages = mock(() =>
+        Promise.resolve([{ image: "ghcr.io/org/app:v1", exists: false, registry: "ghcr.io", error: "connect: connection refused" }])
+      );
+
+      const request = createTestRequest("CREATE", ["ghcr.io/org/app:v1"], { namespace: "dev-team" });
+      const response = await handleAdmissionReview(request, registryClient, { failurePolicy });
+
+      expect(response.response.allowed).toBe(true);
+      expect(response.response.warnings?.[0]).toContain("could not be verified (network");
+      expect(response.response.auditAnnotations?.reason).toBe("failure_allowed");
+    });
+
+    test("should fail closed on registry errors where the policy denies", async () => {
+      registryClient.checkImages = mock(() =>
+        Promise.resolve([{ image: "ghcr.io/org/app:v1", exists: false, registry: "ghcr.io", error: "connect: connection refused" }])
+      );
+
+      const request = createTestRequest("CREATE", ["ghcr.io/org/app:v1"], { namespace: "prod-api" });
+      const response = await handleAdmissionReview(request, registryClient, { failurePolicy });
+
+      expect(response.response.allowed).toBe(false);
+    });
+
+    test("should decide per error class", async () => {
+      registryClient.checkImages = mock(() =>
+        Promise.resolve([{ image: "ghcr.io/org/app:v1", exists: false, registry: "ghcr.io" }])
+      );
+
+      const request = createTestRequest("CREATE", ["ghcr.io/org/app:v1"], { namespace: "dev-team" });
+      const response = await handleAdmissionReview(request, registryClient, { failurePolicy });
+
+      expect(response.response.allowed).toBe(false);
+    });
+
+    test("should keep images whose clone failure is tolerated at the source", async () => {
+      registryClient = new RegistryClient(authConfig, "myregistry.io");
+      registryClient.checkImages = mock(() =>
+        Promise.resolve([{ image: "ghcr.io/org/app:v1", exists: false, registry: "myregistry.io" }])
+      );
+      registryClient.cloneImage = mock(() =>
+        Promise.resolve({ success: false, error: "Skopeo copy failed: unauthorized: authentication required" })
+      );
+
+      const request = createTestRequest("CREATE", ["ghcr.io/org/app:v1"], { namespace: "dev-team" });
+      const response = await handleMutationReview(request, registryClient, { failurePolicy });
+
+      expect(response.response.allowed).toBe(true);
+      expect(response.response.warnings?.[0]).toContain("could not be cloned (auth");
+      expect(response.response.patch).toBeUndefined();
+    });
+
+    test("should apply the policy to unexpected webhook errors", () => {
+      const prodRequest = createTestRequest("CREATE", ["ghcr.io/org/app:v1"], { namespace: "prod-api" });
+      const devRequest = createTestRequest("CREATE", ["ghcr.io/org/app:v1"], { namespace: "dev-team" });
+      const stagingRequest = createTestRequest("CREATE", ["ghcr.io/org/app:v1"], { namespace: "staging" });
+
+      expect(createErrorResponse(prodRequest, new Error("boom"), failurePolicy).response.allowed).toBe(false);
+      expect(createErrorResponse(devRequest, new Error("boom"), failurePolicy).response.allowed).toBe(true);
+      expect(createErrorResponse(stagingRequest, new Error("boom")).response.allowed).toBe(true);
+    });
+
+    test("should annotate unexpected webhook errors for the audit log", () => {
+      const prodRequest = createTestRequest("CREATE", ["ghcr.io/org/app:v1"], { namespace: "prod-api" });
+      const devRequest = createTestRequest("CREATE", ["ghcr.io/org/app:v1"], { namespace: "dev-team" });
+
+      expect(createErrorResponse(prodRequest, new Error("boom"), failurePolicy).response.auditAnnotations).toEqual({
+        decision: "denied",
+        reason: "internal_error",
+      });
+      expect(createErrorResponse(devRequest, new Error("boom"), failurePolicy).response.auditAnnotations).toEqual({
+        decision: "allowed",
+        reason: "internal_error",
+      });
+    });
+
+    test("should deny unrecognised check errors by default", async () => {
+      registryClient.checkImages = mock(() =>
+        Promise.resolve([{ image: "ghcr.io/org/app:v1", exists: false, registry: "ghcr.io", error: "unsupported manifest media type" }])
+      );
+
+      const request = createTestRequest("CREATE", ["ghcr.io/org/app:v1"], { namespace: "staging" });
+      const response = await handleAdmissionReview(request, registryClient);
+
+      expect(response.response.allowed).toBe(false);
+      expect(response.response.auditAnnotations?.reason).toBe("images_not_found");
+    });
+
+    test("should deny clones failing with a registry server error by default", async () => {
+      registryClient = new RegistryClient(authConfig, "myregistry.io");
+      registryClient.checkImages = mock(() =>
+        Promise.resolve([{ image: "ghcr.io/org/app:v1", exists: false, registry: "myregistry.io" }])
+      );
+      registryClient.cloneImage = mock(() =>
+        Promise.resolve({ success: false, error: "received unexpected HTTP status: 507 Insufficient Storage" })
+      );
+
+      const request = createTestRequest("CREATE", ["ghcr.io/org/app:v1"], { namespace: "staging" });
+      const response = await handleMutationReview(request, registryClient);
+
+      expect(response.response.allowed).toBe(false);
+      expect(response.response.auditAnnotations?.reason).toBe("clone_failed");
+    });
+
+    test("should deny clones without a replication target by default", async () => {
+      registryClient = new RegistryClient(authConfig, "myregistry.io");
+      registryClient.checkImages = mock(() =>
+        Promise.resolve([{ image: "ghcr.io/org/app:v1", exists: false, registry: "myregistry.io" }])
+      );
+      registryClient.cloneImage = mock(() =>
+        Promise.resolve({ success: false, error: "No replication target configured for ghcr.io/org/app:v1" })
+      );
+
+      const request = createTestRequest("CREATE", ["ghcr.io/org/app:v1"], { namespace: "staging" });
+      const response = await handleAdmissionReview(request, registryClient);
+
+      expect(response.response.allowed).toBe(false);
+      expect(response.response.status?.message).toContain("No replication target configured");
+    });
+  });
+
+  describe("requester policy", () => {
+    const requesterPolicy = new RequesterPolicy({
+      bypass: { serviceAccounts: ["flux-system/kustomize-controller"] },
+      replicators: { groups: ["platform-admins"] },
+    });
+
+    beforeEach(() => {
+      registryClient = new RegistryClient(authConfig, "myregistry.io");
+      registryClient.checkImages = mock(() =>
+        Promise.resolve([{ image: "nginx:1.25", exists: false, registry: "myregistry.io" }])
+      );
+      registryClient.cloneImage = mock(() => Promise.resolve({ success: true }));
+    });
+
+    test("should skip validation for bypassed service accounts", async () => {
+      const request = createTestRequest("CREATE", ["nginx:1.25"], {
+        userInfo: { username: "system:serviceaccount:flux-system:kustomize-controller", uid: "uid", groups: [] },
+      });
+
+      const response = await handleAdmissionReview(request, registryClient, { requesterPolicy });
+
+      expect(response.response.allowed).toBe(true);
+      expect(response.response.auditAnnotations?.reason).toBe("requester_bypass");
+      expect(registryClient.checkImages).not.toHaveBeenCalled();
+    });
+
+    test("should replicate for permitted groups", async () => {
+      const request = createTestRequest("CREATE", ["nginx:1.25"], {
+        userInfo: { username: "alice", uid: "uid", groups: ["platform-admins"] },
+      });
+
+      const response = await handleAdmissionReview(request, registryClient, { requesterPolicy });
+
+      expect(response.response.allowed).toBe(true);
+      expect(registryClient.cloneImage).toHaveBeenCalled();
+    });
+
+    test("should deny other requesters images that are not pre-approved", async () => {
+      const request = createTestRequest("CREATE", ["nginx:1.25"], {
+        userInfo: { username: "bob", uid: "uid", groups: ["developers"] },
+      });
+
+      const response = await handleAdmissionReview(request, registryClient, { requesterPolicy });
+
+      expect(response.response.allowed).toBe(false);
+      expect(response.response.status?.message).toContain("Image must be pre-approved");
+      expect(response.response.status?.message).toContain("nginx:1.25");
+      expect(registryClient.cloneImage).not.toHaveBeenCalled();
+    });
+
+    test("should admit other requesters when images are already replicated", async () => {
+      registryClient.checkImages = mock(() =>
+        Promise.resolve([{ image: "nginx:1.25", exists: true, registry: "myregistry.io" }])
+      );
+
+      const request = createTestRequest("CREATE", ["nginx:1.25"], {
+        userInfo: { username: "bob", uid: "uid", groups: ["developers"] },
+      });
+
+      const response = await handleAdmissionReview(request, registryClient, { requesterPolicy });
+
+      expect(response.response.allowed).toBe(true);
+    });
+  });
+
+  describe("circuit breaker", () => {
+    const shortCircuited = () =>
+      Promise.resolve([
+        { image: "nginx:1.25", exists: false, registry: "docker.io", error: "Circuit breaker open for docker.io", circuitOpen: true },
+      ]);
+
+    test("should allow with a warning while the registry circuit is open", async () => {
+      registryClient.checkImages = mock(shortCircuited);
+
+      const response = await handleAdmissionReview(createTestRequest("CREATE", ["nginx:1.25"]), registryClient);
+
+      expect(response.response.allowed).toBe(true);
+      expect(response.response.warnings?.[0]).toContain("Registry docker.io is unavailable (circuit breaker open)");
+      expect(response.response.auditAnnotations?.reason).toBe("circuit_open");
+    });
+
+    test("should deny while the registry circuit is open when configured", async () => {
+      registryClient.checkImages = mock(shortCircuited);
+
+      const request = createTestRequest("CREATE", ["nginx:1.25"]);
+      const response = await handleAdmissionReview(request, registryClient, { circuitOpenAction: "deny" });
+
+      expect(response.response.allowed).toBe(false);
+      expect(response.response.status?.message).toContain("retry shortly");
+      expect(response.response.status?.details?.causes?.[0].field).toBe("spec.containers[0].image");
+    });
+
+    test("should still deny missing images on other registries", async () => {
+      registryClient.checkImages = mock(() =>
+        Promise.resolve([
+          { image: "down.io/org/app:v1", exists: false, registry: "down.io", error: "Circuit breaker open for down.io", circuitOpen: true },
+          { image: "ghcr.io/org/missing:v1", exists: false, registry: "ghcr.io" },
+        ])
+      );
+      const request = createTestRequest("CREATE", ["down.io/org/app:v1", "ghcr.io/org/missing:v1"]);
+
+      const response = await handleAdmissionReview(request, registryClient);
+
+      expect(response.response.allowed).toBe(false);
+      expect(response.response.status?.message).toContain("ghcr.io/org/missing:v1");
+      expect(response.response.status?.message).not.toContain("down.io/org/app:v1");
+      expect(response.response.auditAnnotations?.reason).toBe("images_not_found");
+    });
+
+    test("should clone and rewrite images on other registries", async () => {
+      registryClient = new RegistryClient(authConfig, "myregistry.io");
+      registryClient.checkImages = mock(() =>
+        Promise.resolve([
+          { image: "down.io/org/app:v1", exists: false, registry: "down.io", error: "Circuit breaker open for down.io", circuitOpen: true },
+          { image: "nginx:1.25", exists: false, registry: "myregistry.io" },
+        ])
+      );
+      registryClient.cloneImage = mock(() => Promise.resolve({ success: true }));
+      const request = createTestRequest("CREATE", ["down.io/org/app:v1", "nginx:1.25"]);
+
+      const response = await handleMutationReview(request, registryClient);
+
+      expect(response.response.allowed).toBe(true);
+      expect(registryClient.cloneImage).toHaveBeenCalledTimes(1);
+      expect(response.response.warnings?.[0]).toContain("Registry down.io is unavailable (circuit breaker open)");
+      expect(JSON.parse(Buffer.from(response.response.patch!, "base64").toString("utf-8"))).toEqual([
+        { op: "replace", path: "/spec/containers/1/image", value: "myregistry.io/library/nginx:1.25" },
+      ]);
+    });
+
+    test("should keep images at the source while the copy is short-circuited", async () => {
+      registryClient = new RegistryClient(authConfig, "myregistry.io");
+      registryClient.checkImages = mock(() =>
+        Promise.resolve([{ image: "nginx:1.25", exists: false, registry: "myregistry.io" }])
+      );
+      registryClient.cloneImage = mock(() =>
+        Promise.resolve({ success: false, error: "Circuit breaker open for docker.io", openRegistry: "docker.io" })
+      );
+
+      const response = await handleMutationReview(createTestRequest("CREATE", ["nginx:1.25"]), registryClient, {
+        failurePolicy: new FailurePolicy({ default: { network: "deny" } }),
+      });
+
+      expect(response.response.allowed).toBe(true);
+      expect(response.response.warnings?.[0]).toContain("image(s) could not be cloned, allowed anyway: nginx:1.25");
+      expect(response.response.auditAnnotations?.reason).toBe("circuit_open");
+      expect(response.response.patch).toBeUndefined();
+    });
+
+    test("should deny short-circuited copies when configured", async () => {
+      registryClient = new RegistryClient(authConfig, "myregistry.io");
+      registryClient.checkImages = mock(() =>
+        Promise.resolve([{ image: "nginx:1.25", exists: false, registry: "myregistry.io" }])
+      );
+      registryClient.cloneImage = mock(() =>
+        Promise.resolve({ success: false, error: "Circuit breaker open for docker.io", openRegistry: "docker.io" })
+      );
+
+      const request = createTestRequest("CREATE", ["nginx:1.25"]);
+      const response = await handleMutationReview(request, registryClient, { circuitOpenAction: "deny" });
+
+      expect(response.response.allowed).toBe(false);
+      expect(response.response.status?.message).toContain("Registry docker.io is unavailable (circuit breaker open)");
+      expect(response.response.auditAnnotations?.reason).toBe("circuit_open");
+    });
+  });
+
+  describe("in-memory registry backend", () => {
+    test("should clone missing images and rewrite them end to end", async () => {
+      const backend = new InMemoryRegistryBackend();
+      backend.addImage("nginx:1.25");
+      registryClient = new RegistryClient(authConfig, "myregistry.io", undefined, [], { backend });
+      const request = createTestRequest("CREATE", ["nginx:1.25"]);
+
+      const response = await handleMutationReview(request, registryClient);
+
+      expect(response.response.allowed).toBe(true);
+      expect(backend.hasImage("myregistry.io/library/nginx:1.25")).toBe(true);
+      expect(JSON.parse(Buffer.from(response.response.patch!, "base64").toString("utf-8"))).toEqual([
+        { op: "replace", path: "/spec/containers/0/image", value: "myregistry.io/library/nginx:1.25" },
+      ]);
+    });
+
+    test("should deny images missing from the source registry", async () => {
+      registryClient = new RegistryClient(authConfig, undefined, undefined, [], { backend: new InMemoryRegistryBackend() });
+      const request = createTestRequest("CREATE", ["ghcr.io/org/app:v1"]);
+
+      const response = await handleAdmissionReview(request, registryClient);
+
+      expect(response.response.allowed).toBe(false);
+      expect(response.response.status?.message).toContain("ghcr.io/org/app:v1");
+    });
+  });
 });
@@ -0,0 +1,122 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { handleAdmissionReview, handleMutationReview } from "./admission";
+import { RegistryClient } from "../services/registry-client";
+import { LocalRegistry } from "../testing/local-registry";
+import type { AdmissionReviewRequest, RegistryAuthConfig } from "../types";
+
+/**
+ * Admission → check → clone → allow against two local registries, a source
+ * and the target, both behind token auth. Uses the native clients, so neither
+ * skopeo nor network access is needed.
+ */
+describe("admission against local registries", () => {
+  let source: LocalRegistry;
+  let target: LocalRegistry;
+  let registryClient: RegistryClient;
+
+  beforeEach(() => {
+    source = new LocalRegistry({ auth: { username: "puller", password: "secret" } }).start();
+    target = new LocalRegistry({ auth: { username: "pusher", password: "secret" } }).start();
+
+    const authConfig: RegistryAuthConfig = {
+      credentials: new Map([
+        [source.host, { registry: source.host, username: "puller", password: "secret" }],
+        [target.host, { registry: target.host, username: "pusher", password: "secret" }],
+      ]),
+    };
+    registryClient = new RegistryClient(authConfig, target.host, 5000, [source.host, target.host], {
+      inspectClient: "native",
+      copyClient: "native",
+      retry: { baseDelayMs: 1, maxDelayMs: 10 },
+    });
+  });
+
+  afterEach(() => {
+    source.stop();
+    target.stop();
+  });
+
+  function podRequest(image: string): AdmissionReviewRequest {
+    return {
+      apiVersion: "admission.k8s.io/v1",
+      kind: "AdmissionReview",
+      request: {
+        uid: "integration-uid",
+        kind: { group: "", version: "v1", kind: "Pod" },
+        resource: { group: "", version: "v1", resource: "pods" },
+        requestKind: { group: "", version: "v1", kind: "Pod" },
+        requestResource: { group: "", version: "v1", resource: "pods" },
+        namespace: "default",
+        operation: "CREATE",
+        userInfo: { username: "test-user", uid: "test-user-uid", groups: ["system:authenticated"] },
+        object: {
+          apiVersion: "v1",
+          kind: "Pod",
+          metadata: { name: "test-pod" },
+          spec: { containers: [{ name: "app", image }] },
+        },
+        dryRun: false,
+      },
+    };
+  }
+
+  function decodePatch(patch?: string): any[] {
+    return JSON.parse(Buffer.from(patch!, "base64").toString("utf-8"));
+  }
+
+  test("should clone a missing image into the target registry and rewrite it", async () => {
+    const digest = source.pushImage("team/app", "v1", ["base layer", "app layer"]);
+
+    const response = await handleMutationReview(podRequest(`${source.host}/team/app:v1`), registryClient);
+
+    expect(response.response.allowed).toBe(true);
+    expect(decodePatch(response.response.patch)).toEqual([
+      { op: "replace", path: "/spec/containers/0/image", value: `${target.host}/team/app:v1` },
+    ]);
+    expect(target.hasManifest("team/app", "v1")).toBe(true);
+    expect(target.hasManifest("team/app", digest)).toBe(true);
+    expect(target.requests.some((r) => r.path === "/token")).toBe(true);
+  });
+
+  test("should answer from the target registry once the image is replicated", async () => {
+    source.pushImage("team/app", "v1");
+    await handleMutationReview(podRequest(`${source.host}/team/app:v1`), registryClient);
+    const sourceRequests = source.requests.length;
+
+    const response = await handleMutationReview(podRequest(`${source.host}/team/app:v1`), registryClient);
+
+    expect(response.response.allowed).toBe(true);
+    expect(source.requests.length).toBe(sourceRequests);
+  });
+
+  test("should deny images missing from the source registry", async () => {
+    const response = await handleMutationReview(podRequest(`${source.host}/team/missing:v1`), registryClient);
+
+    expect(response.response.allowed).toBe(false);
+    expect(response.response.status?.message).toContain(`${source.host}/team/missing:v1`);
+    expect(target.hasManifest("team/missing", "v1")).toBe(false);
+  });
+
+  test("should retry rate limits and server errors", async () => {
+    source.pushImage("team/app", "v1");
+    target.injectFailure({ match: /^HEAD \/v2\/team\/app\/manifests\//, status: 429, retryAfter: 0, times: 1 });
+    source.injectFailure({ match: /^GET \/v2\/team\/app\/manifests\//, status: 500, times: 1 });
+
+    const response = await handleMutationReview(podRequest(`${source.host}/team/app:v1`), registryClient);
+
+    expect(response.response.allowed).toBe(true);
+    expect(target.hasManifest("team/app", "v1")).toBe(true);
+  });
+
+  test("should enforce the admission deadline against slow registries", async () => {
+    target.injectFailure({ delayMs: 500 });
+
+    const response = await handleAdmissionReview(podRequest(`${source.host}/team/app:v1`), registryClient, {
+      deadlineMs: 100,
+      deadlineAction: "deny",
+    });
+
+    expect(response.response.allowed).toBe(false);
+    expect(response.response.auditAnnotations?.reason).toBe("deadline_exceeded");
+  });
+});
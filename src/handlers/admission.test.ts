@@ -1,5 +1,5 @@
 import { describe, test, expect } from "bun:test";
-import { extractImagesFromObject } from "./admission";
+import { extractImagesFromObject, extractImageLocations, buildImageRewritePatch, formatFieldPath } from "./admission";
 import type { PodSpec, DeploymentSpec, CronJobSpec } from "../types";
 
 describe("extractImagesFromObject", () => {
@@ -164,3 +164,100 @@ describe("extractImagesFromObject", () => {
     expect(images).toContain("debug:latest");
   });
 });
+
+describe("extractImageLocations", () => {
+  test("should record container name and path for each image", () => {
+    const spec: PodSpec = {
+      containers: [{ name: "app", image: "app:v1" }],
+      initContainers: [{ name: "init", image: "init:v1" }],
+      ephemeralContainers: [{ name: "debug", image: "debug:latest" }],
+    };
+
+    const locations = extractImageLocations("Pod", spec);
+    expect(locations).toEqual([
+      { image: "app:v1", containerName: "app", path: ["spec", "containers", 0, "image"] },
+      { image: "init:v1", containerName: "init", path: ["spec", "initContainers", 0, "image"] },
+      { image: "debug:latest", containerName: "debug", path: ["spec", "ephemeralContainers", 0, "image"] },
+    ]);
+  });
+
+  test("should build paths through pod templates", () => {
+    const spec: CronJobSpec = {
+      schedule: "*/5 * * * *",
+      jobTemplate: {
+        spec: {
+          template: {
+            spec: {
+              containers: [{ name: "job", image: "busybox:latest" }],
+            },
+          },
+        },
+      },
+    };
+
+    const locations = extractImageLocations("CronJob", spec);
+    expect(locations[0].path).toEqual([
+      "spec", "jobTemplate", "spec", "template", "spec", "containers", 0, "image",
+    ]);
+  });
+
+  test("should keep duplicate images at different paths", () => {
+    const spec: PodSpec = {
+      containers: [
+        { name: "nginx1", image: "nginx:latest" },
+        { name: "nginx2", image: "nginx:latest" },
+      ],
+    };
+
+    const locations = extractImageLocations("Pod", spec);
+    expect(locations).toHaveLength(2);
+    expect(locations[1].path).toEqual(["spec", "containers", 1, "image"]);
+  });
+});
+
+describe("buildImageRewritePatch", () => {
+  test("should replace images that have a rewrite", () => {
+    const spec: DeploymentSpec = {
+      template: {
+        spec: {
+          containers: [
+            { name: "nginx", image: "nginx:1.25" },
+            { name: "local", image: "myregistry.io/app:v1" },
+          ],
+          initContainers: [{ name: "init", image: "nginx:1.25" }],
+        },
+      },
+    };
+
+    const patch = buildImageRewritePatch(
+      extractImageLocations("Deployment", spec),
+      new Map([["nginx:1.25", "myregistry.io/library/nginx:1.25"]])
+    );
+
+    expect(patch).toEqual([
+      { op: "replace", path: "/spec/template/spec/containers/0/image", value: "myregistry.io/library/nginx:1.25" },
+      { op: "replace", path: "/spec/template/spec/initContainers/0/image", value: "myregistry.io/library/nginx:1.25" },
+    ]);
+  });
+
+  test("should return empty patch when nothing changes", () => {
+    const spec: PodSpec = {
+      containers: [{ name: "app", image: "myregistry.io/app:v1" }],
+    };
+
+    const patch = buildImageRewritePatch(
+      extractImageLocations("Pod", spec),
+      new Map([["myregistry.io/app:v1", "myregistry.io/app:v1"]])
+    );
+
+    expect(patch).toEqual([]);
+  });
+});
+
+describe("formatFieldPath", () => {
+  test("should format path segments as a Kubernetes field path", () => {
+    expect(formatFieldPath(["spec", "template", "spec", "initContainers", 1, "image"])).toBe(
+      "spec.template.spec.initContainers[1].image"
+    );
+  });
+});
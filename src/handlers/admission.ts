@@ -11,10 +11,26 @@ import type {
   DaemonSetSpec,
   ReplicaSetSpec,
   ImageValidationResult,
+  ContainerImageLocation,
+  JsonPatchOperation,
+  KubernetesObject,
+  StatusCause,
 } from "../types";
-import { RegistryClient } from "../services/registry-client";
+import { RegistryClient, DEADLINE_EXCEEDED_ERROR } from "../services/registry-client";
+import type { ReplicationJob } from "../services/replication-queue";
+import type { RegistryPolicy, RegistryPolicyViolation } from "../services/registry-policy";
+import type { MutableTagPolicy, MutableTagFinding } from "../services/tag-policy";
+import type { ImageExtractionRules } from "../services/image-extraction";
+import { FailurePolicy } from "../services/failure-policy";
+import type { RequesterPolicy } from "../services/requester-policy";
 import { metrics, METRICS } from "../services/metrics";
 import { logger } from "../utils/logger";
+import { parseImageReference, pinImageDigest } from "../utils/image-parser";
+import { matchesAnyGlob } from "../utils/patterns";
+import { classifyRegistryError } from "../utils/registry-errors";
+
+// Used when no failure policy is configured
+const DEFAULT_FAILURE_POLICY = new FailurePolicy();
 
 /**
  * Extract all container images from a Kubernetes object
@@ -23,143 +39,308 @@ export function extractImagesFromObject(
   kind: string,
   spec: unknown
 ): string[] {
-  const images: string[] = [];
+  const images = extractImageLocations(kind, spec).map((location) => location.image);
+  return [...new Set(images)]; // Return unique images
+}
+
+/**
+ * Extract every container image together with its location in the object
+ * Paths are relative to the object root so they can be used for JSON patches
+ */
+export function extractImageLocations(
+  kind: string,
+  spec: unknown
+): ContainerImageLocation[] {
+  const locations: ContainerImageLocation[] = [];
+  const path = ["spec"];
 
   switch (kind) {
     case "Pod":
-      extractImagesFromPodSpec(spec as PodSpec, images);
+      extractImagesFromPodSpec(spec as PodSpec, path, locations);
       break;
     case "Job":
-      extractImagesFromJobSpec(spec as JobSpec, images);
+      extractImagesFromJobSpec(spec as JobSpec, path, locations);
       break;
     case "CronJob":
-      extractImagesFromCronJobSpec(spec as CronJobSpec, images);
+      extractImagesFromCronJobSpec(spec as CronJobSpec, path, locations);
       break;
     case "Deployment":
     case "ReplicaSet":
-      extractImagesFromDeploymentSpec(spec as DeploymentSpec | ReplicaSetSpec, images);
+      extractImagesFromDeploymentSpec(spec as DeploymentSpec | ReplicaSetSpec, path, locations);
       break;
     case "StatefulSet":
-      extractImagesFromStatefulSetSpec(spec as StatefulSetSpec, images);
+      extractImagesFromStatefulSetSpec(spec as StatefulSetSpec, path, locations);
       break;
     case "DaemonSet":
-      extractImagesFromDaemonSetSpec(spec as DaemonSetSpec, images);
+      extractImagesFromDaemonSetSpec(spec as DaemonSetSpec, path, locations);
       break;
     default:
       // Try to extract from common patterns
       if (spec && typeof spec === "object") {
-        tryExtractFromUnknownSpec(spec as Record<string, unknown>, images);
+        tryExtractFromUnknownSpec(spec as Record<string, unknown>, path, locations);
       }
   }
 
-  return [...new Set(images)]; // Return unique images
+  return locations;
+}
+
+type ImagePath = Array<string | number>;
+
+function extractImagesFromContainers(
+  containers: Container[] | undefined,
+  path: ImagePath,
+  locations: ContainerImageLocation[]
+): void {
+  if (!Array.isArray(containers)) return;
+
+  containers.forEach((c: Container, index) => {
+    if (c?.image) {
+      locations.push({
+        image: c.image,
+        containerName: c.name,
+        path: [...path, index, "image"],
+      });
+    }
+  });
 }
 
-function extractImagesFromPodSpec(spec: PodSpec, images: string[]): void {
+function extractImagesFromPodSpec(
+  spec: PodSpec,
+  path: ImagePath,
+  locations: ContainerImageLocation[]
+): void {
   if (!spec) return;
 
   // Regular containers
-  if (spec.containers) {
-    spec.containers.forEach((c: Container) => {
-      if (c.image) images.push(c.image);
-    });
-  }
+  extractImagesFromContainers(spec.containers, [...path, "containers"], locations);
 
   // Init containers
-  if (spec.initContainers) {
-    spec.initContainers.forEach((c: Container) => {
-      if (c.image) images.push(c.image);
-    });
-  }
+  extractImagesFromContainers(spec.initContainers, [...path, "initContainers"], locations);
 
   // Ephemeral containers
-  if (spec.ephemeralContainers) {
-    spec.ephemeralContainers.forEach((c: Container) => {
-      if (c.image) images.push(c.image);
-    });
-  }
+  extractImagesFromContainers(spec.ephemeralContainers, [...path, "ephemeralContainers"], locations);
 }
 
 function extractImagesFromPodTemplateSpec(
   template: PodTemplateSpec,
-  images: string[]
+  path: ImagePath,
+  locations: ContainerImageLocation[]
 ): void {
   if (template?.spec) {
-    extractImagesFromPodSpec(template.spec, images);
+    extractImagesFromPodSpec(template.spec, [...path, "spec"], locations);
   }
 }
 
-function extractImagesFromJobSpec(spec: JobSpec, images: string[]): void {
+function extractImagesFromJobSpec(
+  spec: JobSpec,
+  path: ImagePath,
+  locations: ContainerImageLocation[]
+): void {
   if (spec?.template) {
-    extractImagesFromPodTemplateSpec(spec.template, images);
+    extractImagesFromPodTemplateSpec(spec.template, [...path, "template"], locations);
   }
 }
 
-function extractImagesFromCronJobSpec(spec: CronJobSpec, images: string[]): void {
+function extractImagesFromCronJobSpec(
+  spec: CronJobSpec,
+  path: ImagePath,
+  locations: ContainerImageLocation[]
+): void {
   if (spec?.jobTemplate?.spec) {
-    extractImagesFromJobSpec(spec.jobTemplate.spec, images);
+    extractImagesFromJobSpec(spec.jobTemplate.spec, [...path, "jobTemplate", "spec"], locations);
   }
 }
 
 function extractImagesFromDeploymentSpec(
   spec: DeploymentSpec | ReplicaSetSpec,
-  images: string[]
+  path: ImagePath,
+  locations: ContainerImageLocation[]
 ): void {
   if (spec?.template) {
-    extractImagesFromPodTemplateSpec(spec.template, images);
+    extractImagesFromPodTemplateSpec(spec.template, [...path, "template"], locations);
   }
 }
 
 function extractImagesFromStatefulSetSpec(
   spec: StatefulSetSpec,
-  images: string[]
+  path: ImagePath,
+  locations: ContainerImageLocation[]
 ): void {
   if (spec?.template) {
-    extractImagesFromPodTemplateSpec(spec.template, images);
+    extractImagesFromPodTemplateSpec(spec.template, [...path, "template"], locations);
   }
 }
 
 function extractImagesFromDaemonSetSpec(
   spec: DaemonSetSpec,
-  images: string[]
+  path: ImagePath,
+  locations: ContainerImageLocation[]
 ): void {
   if (spec?.template) {
-    extractImagesFromPodTemplateSpec(spec.template, images);
+    extractImagesFromPodTemplateSpec(spec.template, [...path, "template"], locations);
   }
 }
 
 function tryExtractFromUnknownSpec(
   spec: Record<string, unknown>,
-  images: string[]
+  path: ImagePath,
+  locations: ContainerImageLocation[]
 ): void {
   // Try to find template.spec.containers pattern
   if (spec.template && typeof spec.template === "object") {
     const template = spec.template as Record<string, unknown>;
     if (template.spec && typeof template.spec === "object") {
-      extractImagesFromPodSpec(template.spec as PodSpec, images);
+      extractImagesFromPodSpec(template.spec as PodSpec, [...path, "template", "spec"], locations);
     }
   }
   // Try direct containers
   if (spec.containers && Array.isArray(spec.containers)) {
-    (spec.containers as Container[]).forEach((c) => {
-      if (c.image) images.push(c.image);
-    });
+    extractImagesFromContainers(spec.containers as Container[], [...path, "containers"], locations);
   }
 }
 
+/**
+ * Extract image locations using configured rules, falling back to the built-in extractors
+ */
+function extractLocations(
+  kind: AdmissionReviewRequest["request"]["kind"],
+  object: KubernetesObject | undefined,
+  options: AdmissionOptions
+): ContainerImageLocation[] {
+  return options.imageExtraction?.extract(kind, object)
+    ?? extractImageLocations(kind.kind, object?.spec);
+}
+
+/**
+ * Build JSON patch operations that point container images at their replicated copies
+ */
+export function buildImageRewritePatch(
+  locations: ContainerImageLocation[],
+  rewrites: Map<string, string>
+): JsonPatchOperation[] {
+  return locations
+    .filter((location) => {
+      const rewritten = rewrites.get(location.image);
+      return rewritten !== undefined && rewritten !== location.image;
+    })
+    .map((location) => ({
+      op: "replace",
+      path: toJsonPointer(location.path),
+      value: rewrites.get(location.image),
+    }));
+}
+
+/**
+ * Convert path segments into an RFC 6901 JSON pointer
+ */
+function toJsonPointer(path: ImagePath): string {
+  return "/" + path
+    .map((segment) => String(segment).replace(/~/g, "~0").replace(/\//g, "~1"))
+    .join("/");
+}
+
+/**
+ * Options controlling how an admission review is handled
+ */
+export interface AdmissionOptions {
+  // Rewrite container images to their replicated copies (mutating webhook)
+  mutate?: boolean;
+  // How missing images are replicated into the target registry
+  replicationMode?: ReplicationMode;
+  // Allowlist/denylist of source registries and repositories
+  registryPolicy?: RegistryPolicy;
+  // Deny or warn on untagged, latest and other mutable tags
+  tagPolicy?: MutableTagPolicy;
+  // Rewrite tag references to the verified manifest digest when mutating
+  digestPinning?: DigestPinningConfig;
+  // Configured image field paths for custom resources, ahead of the built-in extractors
+  imageExtraction?: ImageExtractionRules;
+  // On UPDATE only check images that were not already in the old object
+  trustExistingImages?: boolean;
+  // Time budget in ms for registry checks and clones, keep it below the webhook timeoutSeconds
+  deadlineMs?: number;
+  // Decision when the budget runs out before all images are verified or cloned
+  deadlineAction?: DeadlineAction;
+  // Decision for images whose registry is short-circuited by its circuit breaker
+  circuitOpenAction?: CircuitOpenAction;
+  // Fail-open/fail-closed matrix per namespace and error class
+  failurePolicy?: FailurePolicy;
+  // Requesters that bypass validation or may trigger replication
+  requesterPolicy?: RequesterPolicy;
+}
+
+/**
+ * Decision taken when the admission deadline is exhausted
+ * - allow: admit without patching and warn that images were not verified
+ * - deny: reject so the client retries later
+ */
+export type DeadlineAction = "allow" | "deny";
+
+/**
+ * Decision taken for images on a registry whose circuit breaker is open
+ * - allow: degrade to admitting without verification, with a warning
+ * - deny: reject until the registry recovers
+ */
+export type CircuitOpenAction = "allow" | "deny";
+
+/**
+ * Replication modes for images missing from the target registry
+ * - sync: clone inline and answer once the clone finished
+ * - async-allow: queue the clone and allow with a warning
+ * - async-deny: queue the clone and deny until it has finished
+ */
+export type ReplicationMode = "sync" | "async-allow" | "async-deny";
+
+/**
+ * Digest pinning switch, either global or for selected namespaces
+ */
+export interface DigestPinningConfig {
+  enabled: boolean;
+  // Namespace glob patterns that pin digests even when disabled globally
+  namespaces?: string[];
+}
+
+/**
+ * Check if tag references should be pinned to digests in a namespace
+ */
+export function isDigestPinningEnabled(
+  namespace: string,
+  config?: DigestPinningConfig
+): boolean {
+  if (!config) return false;
+  return config.enabled || matchesAnyGlob(namespace, config.namespaces || []);
+}
+
+/**
+ * Handle mutating admission review request
+ * Validates (and clones) images like the validating webhook, then patches
+ * container images to point at the target registry
+ */
+export async function handleMutationReview(
+  request: AdmissionReviewRequest,
+  registryClient: RegistryClient,
+  options: AdmissionOptions = {}
+): Promise<AdmissionReviewResponse> {
+  return handleAdmissionReview(request, registryClient, { ...options, mutate: true });
+}
+
 /**
  * Handle admission review request
  */
 export async function handleAdmissionReview(
   request: AdmissionReviewRequest,
-  registryClient: RegistryClient
+  registryClient: RegistryClient,
+  options: AdmissionOptions = {}
 ): Promise<AdmissionReviewResponse> {
   const startTime = Date.now();
-  const { uid, kind, object, operation, namespace } = request.request;
-  const subResource = (request.request as any).subResource;
+  const { uid, kind, object, operation, namespace, subResource } = request.request;
 
   // Track in-flight requests
   metrics.incrementGauge(METRICS.REQUESTS_IN_FLIGHT);
+  const audit = createAdmissionAudit();
+  const review = { uid, apiVersion: getAdmissionApiVersion(request.apiVersion) };
+  // Checks and clones share one budget so the API server gets an answer before its timeout
+  const deadline = options.deadlineMs ? AbortSignal.timeout(options.deadlineMs) : undefined;
 
   try {
     logger.info(
@@ -167,51 +348,142 @@ export async function handleAdmissionReview(
       { uid, operation, kind: kind.kind, namespace: namespace || "default" }
     );
 
-    // Skip validation for subresources (scale, status, etc.) - they don't change images
-    if (subResource) {
+    // Skip validation for subresources (scale, status, etc.) - they don't change images.
+    // Ephemeral containers are added through their own subresource with the whole Pod
+    if (subResource && subResource !== "ephemeralcontainers") {
       logger.info(`Skipping validation for subresource: ${subResource}`, { uid });
-      metrics.incrementCounter(METRICS.ADMISSION_REQUESTS_TOTAL, {
+      recordDecision(audit, {
         operation,
         kind: kind.kind,
         result: "skipped",
         reason: "subresource",
       });
-      return createAllowedResponse(uid);
+      return createAllowedResponse(review, undefined, audit);
     }
 
     // Only validate CREATE and UPDATE operations
     if (operation !== "CREATE" && operation !== "UPDATE") {
       logger.info(`Skipping validation for ${operation} operation`, { uid, operation });
-      metrics.incrementCounter(METRICS.ADMISSION_REQUESTS_TOTAL, {
+      recordDecision(audit, {
         operation,
         kind: kind.kind,
         result: "skipped",
         reason: "operation",
       });
-      return createAllowedResponse(uid);
+      return createAllowedResponse(review, undefined, audit);
+    }
+
+    // Trusted requesters (e.g. a GitOps controller during bootstrap) skip validation entirely
+    if (options.requesterPolicy?.isBypassed(request.request.userInfo)) {
+      logger.info(`Skipping validation for requester ${request.request.userInfo.username}`, { uid });
+      recordDecision(audit, {
+        operation,
+        kind: kind.kind,
+        result: "skipped",
+        reason: "requester_bypass",
+      });
+      return createAllowedResponse(review, undefined, audit);
     }
 
     // Extract images from the object (use optional chaining for safety)
-    const images = extractImagesFromObject(kind.kind, object?.spec);
+    const allLocations = extractLocations(kind, object, options);
+    let locations = allLocations;
+
+    // On UPDATE, images already present in the old object were admitted before
+    const { oldObject } = request.request;
+    if (operation === "UPDATE" && options.trustExistingImages && oldObject) {
+      const existingImages = new Set(extractLocations(kind, oldObject, options).map((location) => location.image));
+      locations = allLocations.filter((location) => !existingImages.has(location.image));
+
+      if (allLocations.length > 0 && locations.length === 0) {
+        logger.info("Images unchanged since the previous version, allowing", { uid });
+        recordDecision(audit, {
+          operation,
+          kind: kind.kind,
+          result: "allowed",
+          reason: "unchanged_images",
+        });
+        return createAllowedResponse(review, undefined, audit);
+      }
+    }
+
+    const images = [...new Set(locations.map((location) => location.image))];
 
     if (images.length === 0) {
       logger.info("No images found in object, allowing", { uid });
-      metrics.incrementCounter(METRICS.ADMISSION_REQUESTS_TOTAL, {
+      recordDecision(audit, {
         operation,
         kind: kind.kind,
         result: "allowed",
         reason: "no_images",
       });
-      return createAllowedResponse(uid);
+      return createAllowedResponse(review, undefined, audit);
+    }
+
+    if (locations.length < allLocations.length) {
+      logger.debug("Trusting images unchanged since the previous version", {
+        uid,
+        trustedCount: new Set(allLocations.map((location) => location.image)).size - images.length,
+      });
     }
 
     logger.info(`Found ${images.length} images to validate`, { uid, imageCount: images.length, images: images.join(", ") });
 
+    // Enforce the registry policy before touching any registry; images already
+    // rewritten to a replication target were checked against the allowlist as
+    // their source, but deny rules still apply to them
+    if (options.registryPolicy) {
+      const violations = images
+        .map((image) => options.registryPolicy!.evaluate(image, registryClient.isReplicationTarget(image)))
+        .filter((violation): violation is RegistryPolicyViolation => violation !== null);
+
+      if (violations.length > 0) {
+        const denial = formatPolicyViolations(violations, locations);
+        logger.error("Registry policy violation", denial.message, { uid, violationCount: violations.length });
+        recordDecision(audit, {
+          operation,
+          kind: kind.kind,
+          result: "denied",
+          reason: "policy_violation",
+        });
+        return createDeniedResponse(review, denial, audit);
+      }
+    }
+
+    // Flag mutable tags, either denying or warning depending on the namespace
+    const tagWarnings: string[] = [];
+    const tagEnforcement = options.tagPolicy?.getEnforcement(namespace || "default") || "off";
+    if (options.tagPolicy && tagEnforcement !== "off") {
+      const findings = images
+        .map((image) => options.tagPolicy!.evaluate(image))
+        .filter((finding): finding is MutableTagFinding => finding !== null);
+
+      if (findings.length > 0 && tagEnforcement === "deny") {
+        const denial = formatMutableTagFindings(findings, locations);
+        logger.error("Mutable tag policy violation", denial.message, { uid, findingCount: findings.length });
+        recordDecision(audit, {
+          operation,
+          kind: kind.kind,
+          result: "denied",
+          reason: "mutable_tag",
+        });
+        return createDeniedResponse(review, denial, audit);
+      }
+
+      findings.forEach((finding) => {
+        tagWarnings.push(`Image ${finding.image} ${finding.reason}; use an immutable tag or digest`);
+      });
+    }
+
     // Check all images
-    const results = await registryClient.checkImages(images);
+    const results = await registryClient.checkImages(images, deadline);
 
     // Track image validation results
+    audit.checked = images;
     results.forEach((result) => {
+      if (result.cached) audit.cacheHits++;
+      const target = registryClient.getTargetImageReference(result.image);
+      if (target) audit.targets.set(result.image, target);
       const status = result.exists ? "exists" : result.error ? "error" : "not_found";
       metrics.incrementCounter(METRICS.IMAGE_VALIDATION_TOTAL, {
         registry: result.registry,
@@ -219,60 +491,258 @@ export async function handleAdmissionReview(
       });
     });
 
-    // Find any images that don't exist
-    const missingImages = results.filter((r) => !r.exists);
     const targetRegistry = registryClient.getTargetRegistry();
+    const replicationMode = options.replicationMode || "sync";
+    const failurePolicy = options.failurePolicy || DEFAULT_FAILURE_POLICY;
+    const circuitOpenAction = options.circuitOpenAction || "allow";
+    // A timeout action in the failure policy takes precedence over the deadline action
+    const deadlineAction = failurePolicy.getConfiguredAction(namespace || "default", "timeout")
+      ?? options.deadlineAction
+      ?? "allow";
+    const pendingImages = new Set<string>();
+    const toleratedImages = new Set<string>();
+    const replicationWarnings: string[] = [];
+    const failureWarnings: string[] = [];
+    // Set when images were admitted unverified because of the deadline or an open circuit
+    let degradedReason: string | undefined;
+
+    // Images whose check was cancelled are neither verified nor known to be missing;
+    // the other images are still denied, cloned or rewritten as usual
+    const expiredChecks = results.filter((r) => r.error === DEADLINE_EXCEEDED_ERROR).map((r) => r.image);
+    if (expiredChecks.length > 0) {
+      if (deadlineAction === "deny") {
+        return createDeadlineResponse(review, expiredChecks, "verified", locations, options, audit, {
+          operation,
+          kind: kind.kind,
+        });
+      }
+      expiredChecks.forEach((image) => toleratedImages.add(image));
+      failureWarnings.push(formatDeadlineWarning(review, expiredChecks, "verified", options));
+      degradedReason = "deadline_exceeded";
+    }
+
+    // Registries with an open circuit were not contacted, so their images are unknown;
+    // the other images are still denied, cloned or rewritten as usual
+    const shortCircuited = results.filter((r) => r.circuitOpen);
+    if (shortCircuited.length > 0) {
+      if (circuitOpenAction === "deny") {
+        return createCircuitOpenResponse(review, shortCircuited, "verified", locations, audit, {
+          operation,
+          kind: kind.kind,
+        });
+      }
+      shortCircuited.forEach((r) => toleratedImages.add(r.image));
+      failureWarnings.push(formatCircuitOpenWarning(review, shortCircuited, "verified"));
+      degradedReason ??= "circuit_open";
+    }
 
-    if (missingImages.length > 0 && targetRegistry) {
+    // Find any images that don't exist
+    const unavailableImages = results.filter((r) => !r.exists && !toleratedImages.has(r.image));
+
+    // Images without a replication target were checked at their source and are really missing
+    const unreplicableImages = registryClient.isReplicationEnabled()
+      ? unavailableImages.filter((missing) => !registryClient.getTargetImageReference(missing.image))
+      : unavailableImages;
+    const missingImages = unavailableImages.filter((missing) => !unreplicableImages.includes(missing));
+
+    // The failure policy decides per namespace and error class whether they fail open or closed
+    const rejectedImages = unreplicableImages.filter((result) => {
+      const errorClass = result.error ? classifyRegistryError(result.error) : "not-found";
+      if (failurePolicy.resolve(namespace || "default", errorClass) === "deny") {
+        return true;
+      }
+      toleratedImages.add(result.image);
+      failureWarnings.push(
+        `Image ${result.image} could not be verified (${errorClass}${result.error ? `: ${result.error}` : ""}), allowed by failure policy`
+      );
+      return false;
+    });
+
+    if (rejectedImages.length > 0) {
+      const denial = formatValidationError(rejectedImages, locations);
+      logger.error("Validation failed", denial.message, { uid, missingCount: rejectedImages.length });
+      recordDecision(audit, {
+        operation,
+        kind: kind.kind,
+        result: "denied",
+        reason: "images_not_found",
+      });
+      return createDeniedResponse(review, denial, audit);
+    }
+
+    // Only permitted requesters may add new images to the target registry
+    if (missingImages.length > 0 && options.requesterPolicy && !options.requesterPolicy.canReplicate(request.request.userInfo)) {
+      const username = request.request.userInfo?.username || "unknown";
+      const denial = buildDenial(
+        `Image must be pre-approved: ${username} may not trigger replication into the target registry. Missing images:`,
+        missingImages.map((missing) => ({
+          image: missing.image,
+          detail: `${missing.image} is not in the target registry`,
+        })),
+        locations,
+        "FieldValueForbidden"
+      );
+      logger.warn("Requester is not permitted to trigger replication", { uid, username, missingCount: missingImages.length });
+      recordDecision(audit, {
+        operation,
+        kind: kind.kind,
+        result: "denied",
+        reason: "replication_not_permitted",
+      });
+      return createDeniedResponse(review, denial, audit);
+    }
+
+    if (missingImages.length > 0 && request.request.dryRun) {
+      // Dry runs must not have side effects (sideEffects: NoneOnDryRun), only report the clones
+      logger.info(`Dry run, skipping replication of ${missingImages.length} images`, { uid, missingCount: missingImages.length });
+      missingImages.forEach((missing) => {
+        replicationWarnings.push(
+          `Dry run: image ${missing.image} would be cloned to ${registryClient.getTargetImageReference(missing.image)}`
+        );
+      });
+    } else if (missingImages.length > 0 && replicationMode !== "sync") {
+      // Replicate in the background instead of blocking the API server
+      const jobs = missingImages.map((missing) =>
+        registryClient.enqueueClone(missing.image, targetRegistry)
+      );
+      audit.queued = jobs.map((job) => job.sourceImage);
+
+      if (replicationMode === "async-deny") {
+        const denial = formatReplicationPending(jobs, locations);
+        logger.info("Denying until background replication completes", { uid, pendingCount: jobs.length });
+        recordDecision(audit, {
+          operation,
+          kind: kind.kind,
+          result: "denied",
+          reason: "replication_pending",
+        });
+        return createDeniedResponse(review, denial, audit);
+      }
+
+      logger.info(`Queued ${jobs.length} images for background replication, allowing`, { uid, pendingCount: jobs.length });
+      jobs.forEach((job) => {
+        pendingImages.add(job.sourceImage);
+        replicationWarnings.push(
+          `Image ${job.sourceImage} is being replicated to ${job.targetImage} in the background (${job.state})`
+        );
+      });
+    } else if (missingImages.length > 0) {
       logger.info(`Found ${missingImages.length} images missing from target registry, attempting to clone`, { uid, missingCount: missingImages.length });
       
       // Clone missing images
       const cloneResults = await Promise.all(
         missingImages.map(async (missing) => {
-          const result = await registryClient.cloneImage(missing.image, targetRegistry);
+          const result = await registryClient.cloneImage(missing.image, targetRegistry, deadline);
           return { image: missing.image, ...result };
         })
       );
 
+      audit.cloned = cloneResults.filter((r) => r.success).map((r) => r.image);
+
       // Check if all clones succeeded
       const failedClones = cloneResults.filter((r) => !r.success);
-      
-      if (failedClones.length > 0) {
-        const errorMessage = `Failed to clone ${failedClones.length} image(s):\n` +
-          failedClones.map((r) => `  - ${r.image}: ${r.error}`).join("\n");
-        logger.error("Clone failed", errorMessage, { uid, failedCount: failedClones.length });
-        metrics.incrementCounter(METRICS.ADMISSION_REQUESTS_TOTAL, {
+      const expiredClones = failedClones.filter((r) => r.error === DEADLINE_EXCEEDED_ERROR).map((r) => r.image);
+      if (expiredClones.length > 0) {
+        if (deadlineAction === "deny") {
+          return createDeadlineResponse(review, expiredClones, "cloned", locations, options, audit, {
+            operation,
+            kind: kind.kind,
+          });
+        }
+        // Keep pointing at the source registry, the copy did not finish
+        expiredClones.forEach((image) => toleratedImages.add(image));
+        failureWarnings.push(formatDeadlineWarning(review, expiredClones, "cloned", options));
+        degradedReason ??= "deadline_exceeded";
+      }
+
+      // Copies from or to a registry with an open circuit were never attempted
+      const openClones = failedClones
+        .filter((r) => r.openRegistry)
+        .map((r) => ({ image: r.image, registry: r.openRegistry! }));
+      if (openClones.length > 0) {
+        if (circuitOpenAction === "deny") {
+          return createCircuitOpenResponse(review, openClones, "cloned", locations, audit, {
+            operation,
+            kind: kind.kind,
+          });
+        }
+        // Keep pointing at the source registry, the copy does not exist
+        openClones.forEach((r) => toleratedImages.add(r.image));
+        failureWarnings.push(formatCircuitOpenWarning(review, openClones, "cloned"));
+        degradedReason ??= "circuit_open";
+      }
+
+      const rejectedClones = failedClones.filter((result) => {
+        if (toleratedImages.has(result.image)) return false;
+        const errorClass = classifyRegistryError(result.error || "");
+        if (failurePolicy.resolve(namespace || "default", errorClass) === "deny") {
+          return true;
+        }
+        // Keep pointing at the source registry, the copy does not exist
+        toleratedImages.add(result.image);
+        failureWarnings.push(
+          `Image ${result.image} could not be cloned (${errorClass}: ${result.error}), allowed by failure policy`
+        );
+        return false;
+      });
+
+      if (rejectedClones.length > 0) {
+        const denial = formatCloneFailures(rejectedClones, locations);
+        logger.error("Clone failed", denial.message, { uid, failedCount: rejectedClones.length });
+        recordDecision(audit, {
           operation,
           kind: kind.kind,
           result: "denied",
           reason: "clone_failed",
         });
-        return createDeniedResponse(uid, errorMessage);
+        return createDeniedResponse(review, denial, audit);
       }
 
-      logger.info("Successfully cloned all images", { uid, clonedCount: cloneResults.length });
-    } else if (missingImages.length > 0) {
-      // No target registry configured - deny
-      const errorMessage = formatValidationError(missingImages);
-      logger.error("Validation failed", errorMessage, { uid, missingCount: missingImages.length });
-      metrics.incrementCounter(METRICS.ADMISSION_REQUESTS_TOTAL, {
-        operation,
-        kind: kind.kind,
-        result: "denied",
-        reason: "images_not_found",
-      });
-      return createDeniedResponse(uid, errorMessage);
+      logger.info(`Successfully cloned ${audit.cloned.length} images`, { uid, clonedCount: audit.cloned.length });
     }
 
-    // All images exist
+    // All images exist (or are being replicated in the background)
     logger.info("All images validated successfully", { uid });
-    metrics.incrementCounter(METRICS.ADMISSION_REQUESTS_TOTAL, {
+    recordDecision(audit, {
       operation,
       kind: kind.kind,
       result: "allowed",
-      reason: "validated",
+      reason: request.request.dryRun && missingImages.length > 0
+        ? "dry_run"
+        : degradedReason ?? (toleratedImages.size > 0
+          ? "failure_allowed"
+          : pendingImages.size > 0 ? "replication_queued" : "validated"),
     });
-    return createAllowedResponse(uid, formatValidationWarnings(results));
+
+    let patch: JsonPatchOperation[] = [];
+    if (options.mutate) {
+      // Images still being replicated, or whose failure was tolerated, keep pointing at the source registry
+      const isReady = (image: string) => !pendingImages.has(image) && !toleratedImages.has(image);
+      const readyImages = images.filter(isReady);
+      const readyResults = results.filter((result) => isReady(result.image));
+      const pinDigests = isDigestPinningEnabled(namespace || "default", options.digestPinning);
+      const digests = pinDigests
+        ? await resolveImageDigests(readyResults, registryClient, deadline)
+        : new Map<string, string>();
+      const rewrites = getImageRewrites(readyImages, registryClient, digests);
+      rewrites.forEach((target, image) => audit.targets.set(image, target));
+      patch = buildImageRewritePatch(locations, rewrites);
+    }
+
+    const response = createAllowedResponse(
+      review,
+      formatValidationWarnings(results, [...tagWarnings, ...replicationWarnings, ...failureWarnings]),
+      audit
+    );
+
+    if (patch.length > 0) {
+      logger.info(`Rewriting ${patch.length} container image reference(s)`, { uid, rewriteCount: patch.length });
+      metrics.incrementCounter(METRICS.IMAGE_REWRITE_TOTAL, { kind: kind.kind }, patch.length);
+      response.response.patchType = "JSONPatch";
+      response.response.patch = Buffer.from(JSON.stringify(patch)).toString("base64");
+    }
+
+    return response;
   } finally {
     // Record request duration
     const duration = (Date.now() - startTime) / 1000;
@@ -286,20 +756,250 @@ export async function handleAdmissionReview(
   }
 }
 
+/**
+ * Describe images the deadline ran out for while they were being verified or cloned
+ */
+function formatDeadlineSummary(images: string[], stage: "verified" | "cloned", options: AdmissionOptions): string {
+  return `Admission deadline of ${options.deadlineMs}ms exceeded before ${images.length} image(s) could be ${stage}`;
+}
+
+/**
+ * Warn about images the deadline ran out for that are admitted unverified and keep pointing at their source
+ */
+function formatDeadlineWarning(
+  review: ReviewIdentity,
+  images: string[],
+  stage: "verified" | "cloned",
+  options: AdmissionOptions
+): string {
+  const summary = formatDeadlineSummary(images, stage, options);
+  logger.warn(summary, { uid: review.uid, action: "allow", images: images.join(", ") });
+  return `${summary}, allowed anyway: ${images.join(", ")}`;
+}
+
+/**
+ * Deny a request whose deadline ran out while images were being verified or cloned
+ */
+function createDeadlineResponse(
+  review: ReviewIdentity,
+  images: string[],
+  stage: "verified" | "cloned",
+  locations: ContainerImageLocation[],
+  options: AdmissionOptions,
+  audit: AdmissionAudit,
+  labels: { operation: string; kind: string }
+): AdmissionReviewResponse {
+  const summary = formatDeadlineSummary(images, stage, options);
+  logger.warn(summary, { uid: review.uid, action: "deny", images: images.join(", ") });
+  recordDecision(audit, {
+    ...labels,
+    result: "denied",
+    reason: "deadline_exceeded",
+  });
+
+  return createDeniedResponse(
+    review,
+    buildDenial(
+      `${summary}, retry shortly:`,
+      images.map((image) => ({ image, detail: `${image} was not ${stage} in time` })),
+      locations,
+      "FieldValueInvalid"
+    ),
+    audit
+  );
+}
+
+/**
+ * Describe images that could not be verified or cloned because their registry's circuit is open
+ */
+function formatCircuitOpenSummary(
+  results: Array<{ image: string; registry: string }>,
+  stage: "verified" | "cloned"
+): string {
+  const registries = [...new Set(results.map((r) => r.registry))];
+  return `Registry ${registries.join(", ")} is unavailable (circuit breaker open), ${results.length} image(s) could not be ${stage}`;
+}
+
+/**
+ * Warn about short-circuited images that are admitted unverified and keep pointing at their source
+ */
+function formatCircuitOpenWarning(
+  review: ReviewIdentity,
+  results: Array<{ image: string; registry: string }>,
+  stage: "verified" | "cloned"
+): string {
+  const summary = formatCircuitOpenSummary(results, stage);
+  const images = results.map((r) => r.image).join(", ");
+  logger.warn(summary, { uid: review.uid, action: "allow", images });
+  return `${summary}, allowed anyway: ${images}`;
+}
+
+/**
+ * Deny a request whose images could not be verified or cloned because their registry's circuit is open
+ */
+function createCircuitOpenResponse(
+  review: ReviewIdentity,
+  results: Array<{ image: string; registry: string }>,
+  stage: "verified" | "cloned",
+  locations: ContainerImageLocation[],
+  audit: AdmissionAudit,
+  labels: { operation: string; kind: string }
+): AdmissionReviewResponse {
+  const summary = formatCircuitOpenSummary(results, stage);
+  logger.warn(summary, { uid: review.uid, action: "deny", images: results.map((r) => r.image).join(", ") });
+  recordDecision(audit, {
+    ...labels,
+    result: "denied",
+    reason: "circuit_open",
+  });
+
+  return createDeniedResponse(
+    review,
+    buildDenial(
+      `${summary}, retry shortly:`,
+      results.map((r) => ({ image: r.image, detail: `${r.image} in ${r.registry} could not be ${stage}` })),
+      locations,
+      "FieldValueInvalid"
+    ),
+    audit
+  );
+}
+
+/**
+ * Collect the manifest digest of every validated image
+ * Images that were just cloned have no digest yet and are checked again
+ */
+async function resolveImageDigests(
+  results: ImageValidationResult[],
+  registryClient: RegistryClient,
+  signal?: AbortSignal
+): Promise<Map<string, string>> {
+  const digests = new Map<string, string>();
+  const unresolved: string[] = [];
+
+  for (const result of results) {
+    if (result.digest) {
+      digests.set(result.image, result.digest);
+    } else {
+      unresolved.push(result.image);
+    }
+  }
+
+  if (unresolved.length > 0) {
+    const resolved = await registryClient.checkImages(unresolved, signal);
+    for (const result of resolved) {
+      if (result.exists && result.digest) {
+        digests.set(result.image, result.digest);
+      }
+    }
+  }
+
+  return digests;
+}
+
+/**
+ * Map each image to the reference it should be rewritten to
+ * Images are pointed at the target registry (unless already served from it)
+ * and, when a digest is known, tag references are pinned to that digest
+ */
+function getImageRewrites(
+  images: string[],
+  registryClient: RegistryClient,
+  digests: Map<string, string>
+): Map<string, string> {
+  const rewrites = new Map<string, string>();
+
+  for (const image of images) {
+    const imageRef = parseImageReference(image);
+    let rewritten = image;
+
+    const targetImage = registryClient.getTargetImageReference(image);
+    if (targetImage && parseImageReference(targetImage).registry !== imageRef.registry) {
+      rewritten = targetImage;
+    }
+
+    const digest = digests.get(image);
+    if (digest && !imageRef.digest) {
+      rewritten = pinImageDigest(rewritten, digest);
+    }
+
+    if (rewritten !== image) {
+      rewrites.set(image, rewritten);
+    }
+  }
+
+  return rewrites;
+}
+
+/**
+ * AdmissionReview versions the webhook can answer, in order of preference
+ */
+export const ADMISSION_API_VERSIONS = ["admission.k8s.io/v1", "admission.k8s.io/v1beta1"];
+
+/**
+ * Check if an AdmissionReview apiVersion is supported
+ */
+export function isSupportedAdmissionApiVersion(apiVersion: string | undefined): boolean {
+  return apiVersion !== undefined && ADMISSION_API_VERSIONS.includes(apiVersion);
+}
+
+/**
+ * Responses must use the apiVersion of the request, v1 when unknown
+ */
+function getAdmissionApiVersion(apiVersion: string | undefined): string {
+  return isSupportedAdmissionApiVersion(apiVersion) ? apiVersion! : ADMISSION_API_VERSIONS[0];
+}
+
+/**
+ * The request fields a response has to echo back
+ */
+interface ReviewIdentity {
+  uid: string;
+  apiVersion: string;
+}
+
+/**
+ * Create the response for a request that failed with an unexpected error
+ * The failure policy decides whether such "webhook" errors fail open or closed
+ */
+export function createErrorResponse(
+  request: AdmissionReviewRequest,
+  error: unknown,
+  failurePolicy: FailurePolicy = DEFAULT_FAILURE_POLICY
+): AdmissionReviewResponse {
+  const review = { uid: request.request.uid, apiVersion: getAdmissionApiVersion(request.apiVersion) };
+  const message = `Webhook error: ${error instanceof Error ? error.message : String(error)}`;
+  const denied = failurePolicy.resolve(request.request.namespace || "default", "webhook") === "deny";
+  const audit = createAdmissionAudit();
+  recordDecision(audit, {
+    operation: request.request.operation,
+    kind: request.request.kind?.kind || "unknown",
+    result: denied ? "denied" : "allowed",
+    reason: "internal_error",
+  });
+
+  if (denied) {
+    return createDeniedResponse(review, { message, causes: [] }, audit);
+  }
+  return createAllowedResponse(review, [message], audit);
+}
+
 /**
  * Create an allowed admission response
  */
 function createAllowedResponse(
-  uid: string,
-  warnings?: string[]
+  review: ReviewIdentity,
+  warnings?: string[],
+  audit?: AdmissionAudit
 ): AdmissionReviewResponse {
   return {
-    apiVersion: "admission.k8s.io/v1",
+    apiVersion: review.apiVersion,
     kind: "AdmissionReview",
     response: {
-      uid,
+      uid: review.uid,
       allowed: true,
       warnings,
+      auditAnnotations: audit && buildAuditAnnotations(audit),
     },
   };
 }
@@ -308,42 +1008,222 @@ function createAllowedResponse(
  * Create a denied admission response
  */
 function createDeniedResponse(
-  uid: string,
-  message: string
+  review: ReviewIdentity,
+  denial: AdmissionDenial,
+  audit?: AdmissionAudit
 ): AdmissionReviewResponse {
   return {
-    apiVersion: "admission.k8s.io/v1",
+    apiVersion: review.apiVersion,
     kind: "AdmissionReview",
     response: {
-      uid,
+      uid: review.uid,
       allowed: false,
       status: {
         code: 403,
-        message,
+        reason: "Forbidden",
+        message: denial.message,
+        details: denial.causes.length > 0 ? { causes: denial.causes } : undefined,
       },
+      auditAnnotations: audit && buildAuditAnnotations(audit),
     },
   };
 }
 
+/**
+ * What the replicator did for a request, reported in the API server audit log
+ */
+interface AdmissionAudit {
+  result?: string;
+  reason?: string;
+  checked: string[];
+  cloned: string[];
+  queued: string[];
+  targets: Map<string, string>; // Source image -> target reference
+  cacheHits: number;
+}
+
+function createAdmissionAudit(): AdmissionAudit {
+  return { checked: [], cloned: [], queued: [], targets: new Map(), cacheHits: 0 };
+}
+
+/**
+ * Record the admission decision in the metrics and the audit record
+ */
+function recordDecision(
+  audit: AdmissionAudit,
+  labels: { operation: string; kind: string; result: string; reason: string }
+): void {
+  audit.result = labels.result;
+  audit.reason = labels.reason;
+  metrics.incrementCounter(METRICS.ADMISSION_REQUESTS_TOTAL, labels);
+}
+
+/**
+ * Convert the audit record into auditAnnotations
+ * The API server prefixes each key with the webhook name, empty lists are omitted
+ */
+function buildAuditAnnotations(audit: AdmissionAudit): Record<string, string> {
+  const annotations: Record<string, string> = {
+    decision: audit.result || "unknown",
+    reason: audit.reason || "unknown",
+  };
+
+  if (audit.checked.length > 0) {
+    annotations["images-checked"] = audit.checked.join(",");
+    annotations["cache-hits"] = String(audit.cacheHits);
+  }
+  if (audit.cloned.length > 0) annotations["images-cloned"] = audit.cloned.join(",");
+  if (audit.queued.length > 0) annotations["images-queued"] = audit.queued.join(",");
+  if (audit.targets.size > 0) {
+    annotations["target-references"] = [...audit.targets]
+      .map(([image, target]) => `${image}=${target}`)
+      .join(",");
+  }
+
+  return annotations;
+}
+
+/**
+ * Human readable denial message plus one structured cause per failing field
+ */
+interface AdmissionDenial {
+  message: string;
+  causes: StatusCause[];
+}
+
+/**
+ * Describe why an image failed, listed once for every field that references it
+ */
+interface ImageFailure {
+  image: string;
+  detail: string;
+}
+
+/**
+ * Build a denial listing each failing container field under a summary line
+ * Images without a known location are listed on their own
+ */
+function buildDenial(
+  summary: string,
+  failures: ImageFailure[],
+  locations: ContainerImageLocation[],
+  causeReason: NonNullable<StatusCause["reason"]>
+): AdmissionDenial {
+  const lines: string[] = [];
+  const causes: StatusCause[] = [];
+
+  for (const failure of failures) {
+    const fields = locations.filter((location) => location.image === failure.image);
+    if (fields.length === 0) {
+      lines.push(`  - ${failure.detail}`);
+      continue;
+    }
+
+    for (const location of fields) {
+      const field = formatFieldPath(location.path);
+      lines.push(`  - container "${location.containerName}" (${field}): ${failure.detail}`);
+      causes.push({ reason: causeReason, message: failure.detail, field });
+    }
+  }
+
+  return { message: `${summary}\n${lines.join("\n")}`, causes };
+}
+
+/**
+ * Format path segments as a Kubernetes field path, e.g. spec.initContainers[1].image
+ */
+export function formatFieldPath(path: ImagePath): string {
+  return path
+    .map((segment, index) =>
+      typeof segment === "number" ? `[${segment}]` : index === 0 ? segment : `.${segment}`
+    )
+    .join("");
+}
+
 /**
  * Format validation error message
  */
-function formatValidationError(missingImages: ImageValidationResult[]): string {
-  const details = missingImages
-    .map((r) => {
-      const errorInfo = r.error ? ` (${r.error})` : "";
-      return `  - ${r.image} in ${r.registry}${errorInfo}`;
-    })
-    .join("\n");
+function formatValidationError(
+  missingImages: ImageValidationResult[],
+  locations: ContainerImageLocation[]
+): AdmissionDenial {
+  return buildDenial(
+    "Image validation failed. The following images do not exist or are not accessible:",
+    missingImages.map((r) => ({
+      image: r.image,
+      detail: `${r.image} in ${r.registry}${r.error ? ` (${r.error})` : ""}`,
+    })),
+    locations,
+    "FieldValueNotFound"
+  );
+}
+
+/**
+ * Format denial message for images rejected by the registry policy
+ */
+function formatPolicyViolations(
+  violations: RegistryPolicyViolation[],
+  locations: ContainerImageLocation[]
+): AdmissionDenial {
+  return buildDenial(
+    "Image registry policy violation. The following images are not permitted:",
+    violations.map((v) => ({ image: v.image, detail: `${v.image} (${v.subject}) violates rule: ${v.rule}` })),
+    locations,
+    "FieldValueForbidden"
+  );
+}
 
-  return `Image validation failed. The following images do not exist or are not accessible:\n${details}`;
+/**
+ * Format denial message for images referenced by mutable tags
+ */
+function formatMutableTagFindings(
+  findings: MutableTagFinding[],
+  locations: ContainerImageLocation[]
+): AdmissionDenial {
+  return buildDenial(
+    "Mutable image tags are not allowed in this namespace. Use an immutable tag or digest:",
+    findings.map((f) => ({ image: f.image, detail: `${f.image}: ${f.reason}` })),
+    locations,
+    "FieldValueForbidden"
+  );
 }
 
 /**
- * Format validation warnings
+ * Format denial message for images that are still being replicated
+ */
+function formatReplicationPending(
+  jobs: ReplicationJob[],
+  locations: ContainerImageLocation[]
+): AdmissionDenial {
+  return buildDenial(
+    "Image replication in progress, retry shortly:",
+    jobs.map((job) => ({ image: job.sourceImage, detail: `${job.sourceImage} -> ${job.targetImage} (${job.state})` })),
+    locations,
+    "FieldValueNotFound"
+  );
+}
+
+/**
+ * Format denial message for images that could not be cloned
+ */
+function formatCloneFailures(
+  failedClones: Array<{ image: string; error?: string }>,
+  locations: ContainerImageLocation[]
+): AdmissionDenial {
+  return buildDenial(
+    `Failed to clone ${failedClones.length} image(s):`,
+    failedClones.map((r) => ({ image: r.image, detail: `${r.image}: ${r.error}` })),
+    locations,
+    "FieldValueNotFound"
+  );
+}
+
+/**
+ * Format validation warnings, followed by any additional policy warnings
  */
 function formatValidationWarnings(
-  results: ImageValidationResult[]
+  results: ImageValidationResult[],
+  additionalWarnings: string[] = []
 ): string[] | undefined {
   const warnings: string[] = [];
 
@@ -356,5 +1236,7 @@ function formatValidationWarnings(
     }
   });
 
+  warnings.push(...additionalWarnings);
+
   return warnings.length > 0 ? warnings : undefined;
 }
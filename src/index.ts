@@ -1,9 +1,32 @@
 import type { AdmissionReviewRequest } from "./types";
 import { RegistryClient } from "./services/registry-client";
-import { handleAdmissionReview } from "./handlers/admission";
+import type { ClientImplementation } from "./services/registry-backend";
+import {
+  createErrorResponse,
+  handleAdmissionReview,
+  handleMutationReview,
+  isSupportedAdmissionApiVersion,
+  ADMISSION_API_VERSIONS,
+  type AdmissionOptions,
+  type DeadlineAction,
+  type CircuitOpenAction,
+  type ReplicationMode,
+} from "./handlers/admission";
 import { loadCredentials } from "./utils/credentials";
 import { metrics } from "./services/metrics";
+import { loadRegistryPolicy } from "./services/registry-policy";
+import { loadTargetMappings } from "./services/target-mappings";
+import { loadImageExtractionRules } from "./services/image-extraction";
+import { loadFailurePolicy } from "./services/failure-policy";
+import { loadRequesterPolicy } from "./services/requester-policy";
+import { ImageCheckCache } from "./services/image-cache";
+import {
+  MutableTagPolicy,
+  parseTagPolicyEnforcement,
+  parseNamespaceEnforcement,
+} from "./services/tag-policy";
 import { logger, initLogger } from "./utils/logger";
+import { parseList } from "./utils/patterns";
 
 // Configuration from environment
 const PORT = parseInt(Bun.env.PORT || "8443", 10);
@@ -12,10 +35,41 @@ const TLS_KEY_PATH = Bun.env.TLS_KEY_PATH || "/certs/tls.key";
 const SKIP_TLS = Bun.env.SKIP_TLS === "true";
 const HEALTH_PORT = parseInt(Bun.env.HEALTH_PORT || "8080", 10);
 const TARGET_REGISTRY = Bun.env.TARGET_REGISTRY; // e.g., "myregistry.azurecr.io"
+const TARGET_MAPPINGS_PATH = Bun.env.TARGET_MAPPINGS_PATH || "/config/target-mappings.json";
+const TARGET_LAYOUT = Bun.env.TARGET_LAYOUT || "legacy"; // "legacy", "registry", "flat" or a template
 const REGISTRY_TIMEOUT = parseInt(Bun.env.REGISTRY_TIMEOUT || "240000", 10); // 4 minutes default
 const INSECURE_REGISTRIES = Bun.env.INSECURE_REGISTRIES?.split(",").map(r => r.trim()).filter(Boolean) || [];
 const DEBUG = Bun.env.DEBUG === "true";
 const LOG_FORMAT = Bun.env.LOG_FORMAT || "text"; // "text" or "json"
+const REPLICATION_MODE = (Bun.env.REPLICATION_MODE || "sync") as ReplicationMode; // "sync", "async-allow" or "async-deny"
+const REPLICATION_CONCURRENCY = parseInt(Bun.env.REPLICATION_CONCURRENCY || "2", 10);
+const REGISTRY_RETRY_ATTEMPTS = parseInt(Bun.env.REGISTRY_RETRY_ATTEMPTS || "3", 10); // 1 = no retries
+const REGISTRY_RETRY_BASE_DELAY_MS = parseInt(Bun.env.REGISTRY_RETRY_BASE_DELAY_MS || "500", 10);
+const REGISTRY_RETRY_MAX_DELAY_MS = parseInt(Bun.env.REGISTRY_RETRY_MAX_DELAY_MS || "10000", 10);
+const CIRCUIT_BREAKER_THRESHOLD = parseInt(Bun.env.CIRCUIT_BREAKER_THRESHOLD || "5", 10); // 0 = disabled
+const CIRCUIT_BREAKER_RESET_MS = parseInt(Bun.env.CIRCUIT_BREAKER_RESET_MS || "30000", 10);
+const CIRCUIT_OPEN_ACTION = (Bun.env.CIRCUIT_OPEN_ACTION || "allow") as CircuitOpenAction; // "allow" or "deny"
+const INSPECT_CLIENT = (Bun.env.INSPECT_CLIENT || "skopeo") as ClientImplementation; // "skopeo" or "native"
+const COPY_CLIENT = (Bun.env.COPY_CLIENT || "skopeo") as ClientImplementation; // "skopeo" or "native"
+const SKOPEO_CONCURRENCY = parseInt(Bun.env.SKOPEO_CONCURRENCY || "8", 10);
+const SKOPEO_REGISTRY_CONCURRENCY = parseInt(Bun.env.SKOPEO_REGISTRY_CONCURRENCY || "4", 10);
+const REGISTRY_POLICY_PATH = Bun.env.REGISTRY_POLICY_PATH || "/config/registry-policy.json";
+const IMAGE_EXTRACTION_PATH = Bun.env.IMAGE_EXTRACTION_PATH || "/config/image-extraction.json";
+const FAILURE_POLICY_PATH = Bun.env.FAILURE_POLICY_PATH || "/config/failure-policy.json";
+const REQUESTER_POLICY_PATH = Bun.env.REQUESTER_POLICY_PATH || "/config/requester-policy.json";
+const MUTABLE_TAG_POLICY = Bun.env.MUTABLE_TAG_POLICY || "off"; // "off", "warn" or "deny"
+const MUTABLE_TAG_POLICY_NAMESPACES = Bun.env.MUTABLE_TAG_POLICY_NAMESPACES; // e.g. "prod-*=deny,dev-*=warn"
+const MUTABLE_TAG_PATTERNS = parseList(Bun.env.MUTABLE_TAG_PATTERNS); // e.g. "*-SNAPSHOT,main"
+const DIGEST_PINNING = Bun.env.DIGEST_PINNING === "true";
+const TRUST_EXISTING_IMAGES = Bun.env.TRUST_EXISTING_IMAGES === "true";
+const ADMISSION_DEADLINE_MS = parseInt(Bun.env.ADMISSION_DEADLINE_MS || "0", 10); // 0 = no deadline
+const DEADLINE_ACTION = (Bun.env.DEADLINE_ACTION || "allow") as DeadlineAction; // "allow" or "deny"
+const DIGEST_PINNING_NAMESPACES = parseList(Bun.env.DIGEST_PINNING_NAMESPACES);
+const IMAGE_CACHE_DIGEST_TTL_MS = parseInt(Bun.env.IMAGE_CACHE_DIGEST_TTL_MS || "86400000", 10); // 24 hours, 0 = off
+const IMAGE_CACHE_TAG_TTL_MS = parseInt(Bun.env.IMAGE_CACHE_TAG_TTL_MS || "60000", 10); // 1 minute, 0 = off
+const IMAGE_CACHE_NEGATIVE_TTL_MS = parseInt(Bun.env.IMAGE_CACHE_NEGATIVE_TTL_MS || "5000", 10); // doubled per failure, 0 = off
+const IMAGE_CACHE_NEGATIVE_MAX_TTL_MS = parseInt(Bun.env.IMAGE_CACHE_NEGATIVE_MAX_TTL_MS || "300000", 10); // 5 minutes
+const IMAGE_CACHE_MAX_ENTRIES = parseInt(Bun.env.IMAGE_CACHE_MAX_ENTRIES || "10000", 10);
 
 // Initialize logger with DEBUG flag and format
 initLogger(DEBUG, LOG_FORMAT === "json");
@@ -28,10 +82,22 @@ logger.info(`Configuration:
   - TLS Cert: ${TLS_CERT_PATH}
   - TLS Key: ${TLS_KEY_PATH}
   - Target Registry: ${TARGET_REGISTRY || "(not set - checking source registries)"}
+  - Target Layout: ${TARGET_LAYOUT}
   - Registry Timeout: ${REGISTRY_TIMEOUT}ms
+  - Replication Mode: ${REPLICATION_MODE} (concurrency: ${REPLICATION_CONCURRENCY})
+  - Registry Retries: ${REGISTRY_RETRY_ATTEMPTS} attempts (backoff ${REGISTRY_RETRY_BASE_DELAY_MS}-${REGISTRY_RETRY_MAX_DELAY_MS}ms)
+  - Circuit Breaker: ${CIRCUIT_BREAKER_THRESHOLD > 0 ? `open after ${CIRCUIT_BREAKER_THRESHOLD} failures, probe after ${CIRCUIT_BREAKER_RESET_MS}ms (while open: ${CIRCUIT_OPEN_ACTION})` : "disabled"}
+  - Inspect Client: ${INSPECT_CLIENT}
+  - Copy Client: ${COPY_CLIENT}
+  - Skopeo Concurrency: ${SKOPEO_CONCURRENCY} (per registry: ${SKOPEO_REGISTRY_CONCURRENCY})
+  - Trust Existing Images: ${TRUST_EXISTING_IMAGES}
+  - Image Cache TTLs: digest ${IMAGE_CACHE_DIGEST_TTL_MS}ms, tag ${IMAGE_CACHE_TAG_TTL_MS}ms, negative ${IMAGE_CACHE_NEGATIVE_TTL_MS}-${IMAGE_CACHE_NEGATIVE_MAX_TTL_MS}ms (max entries: ${IMAGE_CACHE_MAX_ENTRIES})
+  - Admission Deadline: ${ADMISSION_DEADLINE_MS > 0 ? `${ADMISSION_DEADLINE_MS}ms (on exhaustion: ${DEADLINE_ACTION})` : "disabled"}
   - Insecure Registries: ${INSECURE_REGISTRIES.length > 0 ? INSECURE_REGISTRIES.join(", ") : "(none)"}
   - Debug Logging: ${DEBUG}
   - Log Format: ${LOG_FORMAT}
+  - Mutable Tag Policy: ${MUTABLE_TAG_POLICY}${MUTABLE_TAG_POLICY_NAMESPACES ? ` (overrides: ${MUTABLE_TAG_POLICY_NAMESPACES})` : ""}
+  - Digest Pinning: ${DIGEST_PINNING ? "all namespaces" : DIGEST_PINNING_NAMESPACES.length > 0 ? DIGEST_PINNING_NAMESPACES.join(", ") : "disabled"}
 `);
 
 // Load registry credentials
@@ -56,15 +122,50 @@ if (authConfig.credentials.size > 0 || authConfig.defaultCredentials) {
   logger.warn("  - Only public registries will be accessible");
 }
 
-// Validate TARGET_REGISTRY credentials if replication is enabled
-if (TARGET_REGISTRY) {
-  const normalizedTarget = TARGET_REGISTRY.replace(/^https?:\/\//, "").replace(/\/$/, "");
+if (REPLICATION_MODE !== "sync" && REPLICATION_MODE !== "async-allow" && REPLICATION_MODE !== "async-deny") {
+  logger.error(`Invalid REPLICATION_MODE "${REPLICATION_MODE}", expected "sync", "async-allow" or "async-deny"`);
+  process.exit(1);
+}
+
+if (DEADLINE_ACTION !== "allow" && DEADLINE_ACTION !== "deny") {
+  logger.error(`Invalid DEADLINE_ACTION "${DEADLINE_ACTION}", expected "allow" or "deny"`);
+  process.exit(1);
+}
+
+if (CIRCUIT_OPEN_ACTION !== "allow" && CIRCUIT_OPEN_ACTION !== "deny") {
+  logger.error(`Invalid CIRCUIT_OPEN_ACTION "${CIRCUIT_OPEN_ACTION}", expected "allow" or "deny"`);
+  process.exit(1);
+}
+
+/**
+ * Load an optional config file, refusing to start when it is invalid
+ */
+async function loadConfigOrExit<T>(name: string, load: () => Promise<T>): Promise<T> {
+  try {
+    return await load();
+  } catch (error) {
+    logger.error(`Invalid ${name}, refusing to start`, error);
+    process.exit(1);
+  }
+}
+
+// Load per-prefix target mapping rules
+const targetMappings = await loadConfigOrExit("target mappings", () => loadTargetMappings(TARGET_MAPPINGS_PATH));
+
+// Validate target registry credentials if replication is enabled
+const replicationTargets = new Set<string>([
+  ...(TARGET_REGISTRY ? [TARGET_REGISTRY] : []),
+  ...(targetMappings?.targetRegistries || []),
+]);
+
+for (const target of replicationTargets) {
+  const normalizedTarget = target.replace(/^https?:\/\//, "").replace(/\/$/, "");
   const hasTargetCreds = authConfig.credentials.has(normalizedTarget) || 
                          authConfig.defaultCredentials?.registry === normalizedTarget;
   
   if (!hasTargetCreds) {
     logger.warn("WARNING: Image replication enabled but no credentials for target registry!");
-    logger.warn(`  - Target registry: ${TARGET_REGISTRY}`);
+    logger.warn(`  - Target registry: ${target}`);
     logger.warn("  - Replication will fail without authentication");
     logger.warn(`  - Add credentials for "${normalizedTarget}" to registry-credentials secret`);
     
@@ -74,12 +175,85 @@ if (TARGET_REGISTRY) {
       process.exit(1);
     }
   } else {
-    logger.info("Target registry credentials verified", { targetRegistry: TARGET_REGISTRY });
+    logger.info("Target registry credentials verified", { targetRegistry: target });
   }
 }
 
+// Load registry allowlist/denylist policy
+const registryPolicy = await loadConfigOrExit("registry policy", () => loadRegistryPolicy(REGISTRY_POLICY_PATH));
+
+// Load image field paths for custom resources
+const imageExtraction = await loadConfigOrExit("image extraction rules", () => loadImageExtractionRules(IMAGE_EXTRACTION_PATH));
+
+// Load fail-open/fail-closed decisions per namespace and error class
+const failurePolicy = await loadConfigOrExit("failure policy", () => loadFailurePolicy(FAILURE_POLICY_PATH));
+
+// Load requester bypass and replication permissions
+const requesterPolicy = await loadConfigOrExit("requester policy", () => loadRequesterPolicy(REQUESTER_POLICY_PATH));
+
+// Build mutable tag policy
+let tagPolicy: MutableTagPolicy;
+try {
+  tagPolicy = new MutableTagPolicy({
+    enforcement: parseTagPolicyEnforcement(MUTABLE_TAG_POLICY),
+    namespaces: parseNamespaceEnforcement(MUTABLE_TAG_POLICY_NAMESPACES),
+    patterns: MUTABLE_TAG_PATTERNS,
+  });
+} catch (error) {
+  logger.error("Invalid mutable tag policy, refusing to start", error);
+  process.exit(1);
+}
+
 // Create registry client
-const registryClient = new RegistryClient(authConfig, TARGET_REGISTRY, REGISTRY_TIMEOUT, INSECURE_REGISTRIES);
+let registryClient: RegistryClient;
+try {
+  registryClient = new RegistryClient(authConfig, TARGET_REGISTRY, REGISTRY_TIMEOUT, INSECURE_REGISTRIES, {
+    replicationConcurrency: REPLICATION_CONCURRENCY,
+    inspectClient: INSPECT_CLIENT,
+    copyClient: COPY_CLIENT,
+    processConcurrency: SKOPEO_CONCURRENCY,
+    registryConcurrency: SKOPEO_REGISTRY_CONCURRENCY,
+    retry: {
+      attempts: REGISTRY_RETRY_ATTEMPTS,
+      baseDelayMs: REGISTRY_RETRY_BASE_DELAY_MS,
+      maxDelayMs: REGISTRY_RETRY_MAX_DELAY_MS,
+    },
+    circuitBreaker: {
+      failureThreshold: CIRCUIT_BREAKER_THRESHOLD,
+      resetTimeoutMs: CIRCUIT_BREAKER_RESET_MS,
+    },
+    targetLayout: TARGET_LAYOUT,
+    targetMappings,
+    imageCache: new ImageCheckCache({
+      digestTtlMs: IMAGE_CACHE_DIGEST_TTL_MS,
+      tagTtlMs: IMAGE_CACHE_TAG_TTL_MS,
+      negativeTtlMs: IMAGE_CACHE_NEGATIVE_TTL_MS,
+      negativeMaxTtlMs: IMAGE_CACHE_NEGATIVE_MAX_TTL_MS,
+      maxEntries: IMAGE_CACHE_MAX_ENTRIES,
+    }),
+  });
+} catch (error) {
+  logger.error("Invalid registry client configuration, refusing to start", error);
+  process.exit(1);
+}
+
+// Admission behaviour shared by the validating and mutating endpoints
+const admissionOptions: AdmissionOptions = {
+  replicationMode: REPLICATION_MODE,
+  registryPolicy,
+  tagPolicy,
+  imageExtraction,
+  trustExistingImages: TRUST_EXISTING_IMAGES,
+  deadlineMs: ADMISSION_DEADLINE_MS > 0 ? ADMISSION_DEADLINE_MS : undefined,
+  deadlineAction: DEADLINE_ACTION,
+  circuitOpenAction: CIRCUIT_OPEN_ACTION,
+  failurePolicy,
+  requesterPolicy,
+  digestPinning: {
+    enabled: DIGEST_PINNING,
+    namespaces: DIGEST_PINNING_NAMESPACES,
+  },
+};
 
 // Health check server (HTTP)
 const healthServer = Bun.serve({
@@ -105,6 +279,23 @@ const healthServer = Bun.serve({
       });
     }
 
+    if (url.pathname === "/replications") {
+      return new Response(JSON.stringify({ jobs: registryClient.getReplicationJobs() }), {
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Drop cached existence checks, e.g. after deleting an image from the target registry
+    // ?image= takes a reference or a glob over normalized references; omitted purges everything
+    if (url.pathname === "/cache/purge" && req.method === "POST") {
+      const image = url.searchParams.get("image") || undefined;
+      const purged = registryClient.purgeImageCache(image);
+      logger.info("Purged image cache", { image: image ?? "*", purged });
+      return new Response(JSON.stringify({ purged }), {
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
     return new Response("Not Found", { status: 404 });
   },
 });
@@ -136,6 +327,58 @@ if (!SKIP_TLS) {
   }
 }
 
+/**
+ * Parse an AdmissionReview from the request body and answer it with the given handler
+ */
+async function handleReviewRequest(
+  req: Request,
+  handler: typeof handleAdmissionReview
+): Promise<Response> {
+  const contentType = req.headers.get("Content-Type");
+  if (!contentType?.includes("application/json")) {
+    return new Response("Content-Type must be application/json", {
+      status: 415,
+    });
+  }
+
+  let admissionReview: AdmissionReviewRequest;
+  try {
+    admissionReview = (await req.json()) as AdmissionReviewRequest;
+  } catch {
+    return new Response("Invalid AdmissionReview: malformed JSON", {
+      status: 400,
+    });
+  }
+
+  // Validate request structure
+  if (!admissionReview?.request?.uid) {
+    return new Response("Invalid AdmissionReview: missing request.uid", {
+      status: 400,
+    });
+  }
+
+  if (!isSupportedAdmissionApiVersion(admissionReview.apiVersion)) {
+    return new Response(
+      `Unsupported AdmissionReview apiVersion "${admissionReview.apiVersion}", expected one of: ${ADMISSION_API_VERSIONS.join(", ")}`,
+      { status: 400 }
+    );
+  }
+
+  try {
+    const response = await handler(admissionReview, registryClient, admissionOptions);
+
+    return new Response(JSON.stringify(response), {
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    logger.error("Error processing admission review", error, { uid: admissionReview.request.uid });
+    return new Response(JSON.stringify(createErrorResponse(admissionReview, error, failurePolicy)), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+}
+
 // Main webhook server
 const webhookServer = Bun.serve({
   port: PORT,
@@ -143,53 +386,13 @@ const webhookServer = Bun.serve({
   async fetch(req) {
     const url = new URL(req.url);
 
-    // Handle admission webhook
+    // Handle admission webhooks
     if (url.pathname === "/validate" && req.method === "POST") {
-      try {
-        const contentType = req.headers.get("Content-Type");
-        if (!contentType?.includes("application/json")) {
-          return new Response("Content-Type must be application/json", {
-            status: 415,
-          });
-        }
-
-        const admissionReview = (await req.json()) as AdmissionReviewRequest;
-
-        // Validate request structure
-        if (!admissionReview.request?.uid) {
-          return new Response("Invalid AdmissionReview: missing request.uid", {
-            status: 400,
-          });
-        }
-
-        const response = await handleAdmissionReview(
-          admissionReview,
-          registryClient
-        );
-
-        return new Response(JSON.stringify(response), {
-          headers: { "Content-Type": "application/json" },
-        });
-      } catch (error) {
-        logger.error("Error processing admission review", error);
-        return new Response(
-          JSON.stringify({
-            apiVersion: "admission.k8s.io/v1",
-            kind: "AdmissionReview",
-            response: {
-              uid: "",
-              allowed: true, // Allow on error to not block deployments
-              warnings: [
-                `Webhook error: ${error instanceof Error ? error.message : String(error)}`,
-              ],
-            },
-          }),
-          {
-            status: 200,
-            headers: { "Content-Type": "application/json" },
-          }
-        );
-      }
+      return handleReviewRequest(req, handleAdmissionReview);
+    }
+
+    if (url.pathname === "/mutate" && req.method === "POST") {
+      return handleReviewRequest(req, handleMutationReview);
     }
 
     // Health endpoints on webhook port too
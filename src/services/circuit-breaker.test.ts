@@ -0,0 +1,86 @@
+import { describe, test, expect, setSystemTime, afterEach } from "bun:test";
+import { CircuitBreaker } from "./circuit-breaker";
+import { metrics, METRICS } from "./metrics";
+
+describe("CircuitBreaker", () => {
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  test("should open after consecutive failures", () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 });
+
+    breaker.recordFailure("docker.io");
+    expect(breaker.tryAcquire("docker.io")).toBe(true);
+    breaker.recordFailure("docker.io");
+
+    expect(breaker.getState("docker.io")).toBe("open");
+    expect(breaker.tryAcquire("docker.io")).toBe(false);
+    expect(breaker.tryAcquire("ghcr.io")).toBe(true);
+  });
+
+  test("should reset the failure count on success", () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 });
+
+    breaker.recordFailure("docker.io");
+    breaker.recordSuccess("docker.io");
+    breaker.recordFailure("docker.io");
+
+    expect(breaker.getState("docker.io")).toBe("closed");
+  });
+
+  test("should let a single probe through once the reset timeout passed", () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 1000 });
+    const start = Date.now();
+    setSystemTime(start);
+    breaker.recordFailure("docker.io");
+
+    setSystemTime(start + 1500);
+    expect(breaker.tryAcquire("docker.io")).toBe(true);
+    expect(breaker.getState("docker.io")).toBe("half-open");
+    expect(breaker.tryAcquire("docker.io")).toBe(false);
+
+    breaker.recordSuccess("docker.io");
+    expect(breaker.getState("docker.io")).toBe("closed");
+    expect(breaker.tryAcquire("docker.io")).toBe(true);
+  });
+
+  test("should open again when the probe fails", () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 3, resetTimeoutMs: 1000 });
+    const start = Date.now();
+    setSystemTime(start);
+    breaker.recordFailure("docker.io");
+    breaker.recordFailure("docker.io");
+    breaker.recordFailure("docker.io");
+
+    setSystemTime(start + 1500);
+    expect(breaker.tryAcquire("docker.io")).toBe(true);
+    breaker.recordFailure("docker.io");
+
+    expect(breaker.getState("docker.io")).toBe("open");
+    expect(breaker.tryAcquire("docker.io")).toBe(false);
+  });
+
+  test("should let the next request probe when a probe is released", () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 0 });
+    breaker.recordFailure("docker.io");
+
+    expect(breaker.tryAcquire("docker.io")).toBe(true);
+    breaker.release("docker.io");
+    expect(breaker.tryAcquire("docker.io")).toBe(true);
+  });
+
+  test("should never open when disabled", () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 0 });
+    for (let i = 0; i < 10; i++) breaker.recordFailure("docker.io");
+
+    expect(breaker.getState("docker.io")).toBe("closed");
+  });
+
+  test("should publish its state as a gauge", () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1 });
+    breaker.recordFailure("quay.io");
+
+    expect(metrics.generatePrometheusMetrics()).toContain(`${METRICS.CIRCUIT_BREAKER_STATE}{registry="quay.io"} 2`);
+  });
+});
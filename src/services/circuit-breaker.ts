@@ -0,0 +1,126 @@
+import { metrics, METRICS } from "./metrics";
+import { logger } from "../utils/logger";
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+// Gauge values for webhook_circuit_breaker_state
+const STATE_VALUES: Record<CircuitState, number> = { closed: 0, "half-open": 1, open: 2 };
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures that open the circuit; 0 disables the breaker
+  failureThreshold?: number;
+  // How long the circuit stays open before a probe is let through
+  resetTimeoutMs?: number;
+}
+
+interface Circuit {
+  state: CircuitState;
+  failures: number;
+  openedAt: number;
+  probing: boolean;
+}
+
+/**
+ * Per-registry circuit breaker
+ * After failureThreshold consecutive failures a registry's circuit opens and
+ * requests are short-circuited instead of waiting for the registry to time out.
+ * Once resetTimeoutMs has passed a single probe is let through (half-open):
+ * success closes the circuit, failure opens it again.
+ */
+export class CircuitBreaker {
+  private circuits = new Map<string, Circuit>();
+  private failureThreshold: number;
+  private resetTimeoutMs: number;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.resetTimeoutMs = options.resetTimeoutMs ?? 30000;
+    if (!(this.failureThreshold >= 0) || !(this.resetTimeoutMs >= 0)) {
+      throw new Error(`Invalid circuit breaker options: ${JSON.stringify(options)}`);
+    }
+  }
+
+  /**
+   * Whether a request to the registry may go ahead
+   * Returns true for the one probe of a half-open circuit; the caller must then
+   * report its outcome with recordSuccess, recordFailure or release
+   */
+  tryAcquire(registry: string): boolean {
+    const circuit = this.circuits.get(registry);
+    if (!circuit || circuit.state === "closed") return true;
+
+    if (circuit.state === "open" && Date.now() - circuit.openedAt >= this.resetTimeoutMs) {
+      this.transition(registry, circuit, "half-open");
+    }
+    if (circuit.state === "half-open" && !circuit.probing) {
+      circuit.probing = true;
+      logger.info("Probing registry with open circuit", { registry });
+      return true;
+    }
+
+    metrics.incrementCounter(METRICS.CIRCUIT_BREAKER_SHORT_CIRCUITS, { registry });
+    return false;
+  }
+
+  /**
+   * Whether requests to the registry are currently being short-circuited
+   * Unlike tryAcquire this never starts a probe
+   */
+  isOpen(registry: string): boolean {
+    const state = this.circuits.get(registry)?.state;
+    return state === "open" || state === "half-open";
+  }
+
+  /**
+   * The registry answered; close its circuit
+   */
+  recordSuccess(registry: string): void {
+    const circuit = this.circuits.get(registry);
+    if (!circuit) return;
+    circuit.failures = 0;
+    circuit.probing = false;
+    if (circuit.state !== "closed") this.transition(registry, circuit, "closed");
+  }
+
+  /**
+   * The registry failed to answer; open its circuit at the threshold or after a failed probe
+   */
+  recordFailure(registry: string): void {
+    if (this.failureThreshold === 0) return;
+
+    let circuit = this.circuits.get(registry);
+    if (!circuit) {
+      circuit = { state: "closed", failures: 0, openedAt: 0, probing: false };
+      this.circuits.set(registry, circuit);
+    }
+
+    circuit.failures++;
+    circuit.probing = false;
+    if (circuit.state === "half-open" || circuit.failures >= this.failureThreshold) {
+      circuit.openedAt = Date.now();
+      if (circuit.state !== "open") this.transition(registry, circuit, "open");
+    }
+  }
+
+  /**
+   * The request ended without telling anything about the registry (e.g. the
+   * admission deadline cancelled it); let the next request probe instead
+   */
+  release(registry: string): void {
+    const circuit = this.circuits.get(registry);
+    if (circuit) circuit.probing = false;
+  }
+
+  /**
+   * Current state of a registry's circuit
+   */
+  getState(registry: string): CircuitState {
+    return this.circuits.get(registry)?.state ?? "closed";
+  }
+
+  private transition(registry: string, circuit: Circuit, state: CircuitState): void {
+    logger.warn("Registry circuit breaker state changed", { registry, from: circuit.state, to: state });
+    circuit.state = state;
+    metrics.setGauge(METRICS.CIRCUIT_BREAKER_STATE, STATE_VALUES[state], { registry });
+  }
+}
@@ -0,0 +1,50 @@
+import { describe, test, expect } from "bun:test";
+import { FailurePolicy } from "./failure-policy";
+
+describe("FailurePolicy", () => {
+  test("should use built-in defaults without configuration", () => {
+    const policy = new FailurePolicy();
+    expect(policy.resolve("default", "timeout")).toBe("deny");
+    expect(policy.resolve("default", "not-found")).toBe("deny");
+    expect(policy.resolve("default", "internal")).toBe("deny");
+    expect(policy.resolve("default", "webhook")).toBe("allow");
+  });
+
+  test("should apply the first matching namespace rule", () => {
+    const policy = new FailurePolicy({
+      default: { timeout: "allow" },
+      namespaces: [
+        { namespaces: ["prod-*"], actions: { "*": "deny" } },
+        { namespaces: ["dev-*", "sandbox"], actions: { "*": "allow", "not-found": "deny" } },
+      ],
+    });
+
+    expect(policy.resolve("prod-payments", "internal")).toBe("deny");
+    expect(policy.resolve("dev-team", "auth")).toBe("allow");
+    expect(policy.resolve("sandbox", "not-found")).toBe("deny");
+    expect(policy.resolve("staging", "timeout")).toBe("allow");
+    expect(policy.resolve("staging", "auth")).toBe("deny");
+  });
+
+  test("should fall back to the default for classes a rule does not list", () => {
+    const policy = new FailurePolicy({
+      default: { network: "allow" },
+      namespaces: [{ namespaces: ["prod-*"], actions: { timeout: "deny" } }],
+    });
+
+    expect(policy.resolve("prod-api", "network")).toBe("allow");
+  });
+
+  test("should tell configured actions apart from built-in defaults", () => {
+    const policy = new FailurePolicy({ namespaces: [{ namespaces: ["prod-*"], actions: { "*": "deny" } }] });
+
+    expect(policy.getConfiguredAction("prod-api", "timeout")).toBe("deny");
+    expect(policy.getConfiguredAction("staging", "timeout")).toBeUndefined();
+  });
+
+  test("should reject unknown error classes and actions", () => {
+    expect(() => new FailurePolicy({ default: { dns: "allow" } as any })).toThrow('Unknown error class "dns"');
+    expect(() => new FailurePolicy({ default: { auth: "ignore" } as any })).toThrow('Invalid failure action "ignore"');
+    expect(() => new FailurePolicy({ namespaces: [{ namespaces: [], actions: {} }] })).toThrow("Invalid failure policy rule");
+  });
+});
@@ -0,0 +1,92 @@
+import { ERROR_CLASSES, type ErrorClass } from "../utils/registry-errors";
+import { matchesAnyGlob } from "../utils/patterns";
+import { loadJsonConfig } from "../utils/config-file";
+
+const FAILURE_POLICY_PATH = "/config/failure-policy.json";
+
+/**
+ * What to do with a request when an image could not be verified or cloned
+ * - allow: fail open, admit with a warning
+ * - deny: fail closed, reject the request
+ */
+export type FailureAction = "allow" | "deny";
+
+// Error class -> action, "*" applies to every class not listed explicitly
+export type FailureActions = Partial<Record<ErrorClass | "*", FailureAction>>;
+
+export interface FailurePolicyConfig {
+  // Actions for namespaces without a matching rule
+  default?: FailureActions;
+  // The first rule with a matching namespace glob wins; unlisted classes use the default
+  namespaces?: Array<{ namespaces: string[]; actions: FailureActions }>;
+}
+
+// Registry failures fail closed; unexpected webhook errors fail open like the webhook always did
+const DEFAULT_ACTIONS: Record<ErrorClass, FailureAction> = {
+  timeout: "deny",
+  auth: "deny",
+  network: "deny",
+  "not-found": "deny",
+  internal: "deny",
+  webhook: "allow",
+};
+
+const FAILURE_ACTIONS: FailureAction[] = ["allow", "deny"];
+
+/**
+ * Fail-open/fail-closed decision matrix keyed on namespace and error class
+ */
+export class FailurePolicy {
+  constructor(private config: FailurePolicyConfig = {}) {
+    validateActions(config.default);
+    for (const rule of config.namespaces || []) {
+      if (!Array.isArray(rule?.namespaces) || rule.namespaces.length === 0) {
+        throw new Error(`Invalid failure policy rule: ${JSON.stringify(rule)}`);
+      }
+      validateActions(rule.actions);
+    }
+  }
+
+  /**
+   * Decide whether a failure of the given class fails open or closed in a namespace
+   */
+  resolve(namespace: string, errorClass: ErrorClass): FailureAction {
+    return this.getConfiguredAction(namespace, errorClass) ?? DEFAULT_ACTIONS[errorClass];
+  }
+
+  /**
+   * The action configured for a class in a namespace, undefined when only the built-in default applies
+   */
+  getConfiguredAction(namespace: string, errorClass: ErrorClass): FailureAction | undefined {
+    const rule = this.config.namespaces?.find((entry) => matchesAnyGlob(namespace, entry.namespaces));
+    return rule?.actions[errorClass]
+      ?? rule?.actions["*"]
+      ?? this.config.default?.[errorClass]
+      ?? this.config.default?.["*"];
+  }
+}
+
+function validateActions(actions: FailureActions | undefined): void {
+  for (const [errorClass, action] of Object.entries(actions || {})) {
+    if (errorClass !== "*" && !ERROR_CLASSES.includes(errorClass as ErrorClass)) {
+      throw new Error(`Unknown error class "${errorClass}" in failure policy, expected one of: *, ${ERROR_CLASSES.join(", ")}`);
+    }
+    if (!FAILURE_ACTIONS.includes(action as FailureAction)) {
+      throw new Error(`Invalid failure action "${action}" for ${errorClass}, expected "allow" or "deny"`);
+    }
+  }
+}
+
+/**
+ * Load the failure policy from a JSON file
+ * Without a policy file the default action of each error class applies
+ */
+export async function loadFailurePolicy(
+  path: string = FAILURE_POLICY_PATH
+): Promise<FailurePolicy | undefined> {
+  return loadJsonConfig(path, {
+    name: "failure policy",
+    build: (config: FailurePolicyConfig) => new FailurePolicy(config),
+    describe: (config) => ({ namespaceRules: config.namespaces?.length || 0 }),
+  });
+}
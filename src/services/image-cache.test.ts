@@ -0,0 +1,82 @@
+import { describe, test, expect, setSystemTime, afterEach } from "bun:test";
+import { ImageCheckCache } from "./image-cache";
+import type { ImageValidationResult } from "../types";
+
+const found: ImageValidationResult = { image: "nginx:1.25", exists: true, registry: "registry-1.docker.io" };
+const missing: ImageValidationResult = { image: "nginx:1.25", exists: false, registry: "registry-1.docker.io" };
+const key = "registry-1.docker.io/library/nginx:1.25";
+
+describe("ImageCheckCache", () => {
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  test("should cache tags for the tag TTL and digests for the digest TTL", () => {
+    const cache = new ImageCheckCache({ tagTtlMs: 1000, digestTtlMs: 60000 });
+    const start = Date.now();
+    setSystemTime(start);
+
+    cache.set(key, found, false);
+    cache.set("registry-1.docker.io/library/nginx@sha256:abc", found, true);
+
+    setSystemTime(start + 2000);
+    expect(cache.get(key)).toBeUndefined();
+    expect(cache.get("registry-1.docker.io/library/nginx@sha256:abc")).toEqual(found);
+  });
+
+  test("should back off negative results exponentially up to the maximum", () => {
+    const cache = new ImageCheckCache({ negativeTtlMs: 1000, negativeMaxTtlMs: 3000 });
+    const start = Date.now();
+    setSystemTime(start);
+
+    cache.set(key, missing, false);
+    setSystemTime(start + 1500);
+    expect(cache.get(key)).toBeUndefined();
+
+    cache.set(key, missing, false); // 2s
+    setSystemTime(start + 3000);
+    expect(cache.get(key)).toEqual(missing);
+
+    cache.set(key, missing, false); // capped at 3s instead of 4s
+    setSystemTime(start + 3000 + 3500);
+    expect(cache.get(key)).toBeUndefined();
+  });
+
+  test("should reset the backoff after a positive result", () => {
+    const cache = new ImageCheckCache({ negativeTtlMs: 1000, tagTtlMs: 0 });
+    const start = Date.now();
+    setSystemTime(start);
+
+    cache.set(key, missing, false);
+    cache.set(key, missing, false);
+    cache.set(key, found, false); // not cached with a tag TTL of 0
+    cache.set(key, missing, false);
+
+    setSystemTime(start + 1500);
+    expect(cache.get(key)).toBeUndefined();
+  });
+
+  test("should evict the oldest entries beyond the maximum size", () => {
+    const cache = new ImageCheckCache({ maxEntries: 2 });
+
+    cache.set("a", found, false);
+    cache.set("b", found, false);
+    cache.set("c", found, false);
+
+    expect(cache.size).toBe(2);
+    expect(cache.get("a")).toBeUndefined();
+    expect(cache.get("c")).toEqual(found);
+  });
+
+  test("should purge by exact reference, glob or everything", () => {
+    const cache = new ImageCheckCache();
+    cache.set(key, found, false);
+    cache.set("registry-1.docker.io/library/redis:7", found, false);
+    cache.set("ghcr.io/org/app:v1", found, false);
+
+    expect(cache.purge(key)).toBe(1);
+    expect(cache.purge("registry-1.docker.io/*")).toBe(1);
+    expect(cache.purge()).toBe(1);
+    expect(cache.size).toBe(0);
+  });
+});
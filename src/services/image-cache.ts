@@ -0,0 +1,127 @@
+import type { ImageValidationResult } from "../types";
+import { metrics, METRICS } from "./metrics";
+import { matchesGlob } from "../utils/patterns";
+
+/**
+ * TTLs for cached image checks, all in milliseconds (0 disables that kind of caching)
+ */
+export interface ImageCacheOptions {
+  // Digest references are immutable and can be cached for a long time
+  digestTtlMs?: number;
+  // Tags can be moved, so existence and digest are only trusted briefly
+  tagTtlMs?: number;
+  // First TTL for missing or failing images, doubled on every consecutive failure
+  negativeTtlMs?: number;
+  // Upper bound for the negative backoff
+  negativeMaxTtlMs?: number;
+  // Oldest entries are evicted beyond this size
+  maxEntries?: number;
+}
+
+interface CacheEntry {
+  result: ImageValidationResult;
+  expiresAt: number;
+  failures: number; // Consecutive negative results, drives the backoff
+}
+
+/**
+ * Positive and negative TTL cache for image existence checks
+ * Keys are normalized references (registry/repository:tag or @digest) so every
+ * spelling of an image shares one entry. Expired negative entries are kept until
+ * overwritten so the backoff survives expiry.
+ */
+export class ImageCheckCache {
+  private entries = new Map<string, CacheEntry>();
+  private digestTtlMs: number;
+  private tagTtlMs: number;
+  private negativeTtlMs: number;
+  private negativeMaxTtlMs: number;
+  private maxEntries: number;
+
+  constructor(options: ImageCacheOptions = {}) {
+    this.digestTtlMs = options.digestTtlMs ?? 24 * 60 * 60 * 1000;
+    this.tagTtlMs = options.tagTtlMs ?? 60 * 1000;
+    this.negativeTtlMs = options.negativeTtlMs ?? 5 * 1000;
+    this.negativeMaxTtlMs = options.negativeMaxTtlMs ?? 5 * 60 * 1000;
+    this.maxEntries = options.maxEntries ?? 10000;
+  }
+
+  /**
+   * Get a cached result, recording a hit or miss
+   */
+  get(reference: string): ImageValidationResult | undefined {
+    const entry = this.entries.get(reference);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      metrics.incrementCounter(METRICS.IMAGE_CACHE_MISSES);
+      return undefined;
+    }
+
+    metrics.incrementCounter(METRICS.IMAGE_CACHE_HITS, { result: entry.result.exists ? "positive" : "negative" });
+    return entry.result;
+  }
+
+  /**
+   * Cache the result of a check
+   * Positive results use the digest or tag TTL, negative ones back off exponentially
+   */
+  set(reference: string, result: ImageValidationResult, immutable: boolean): void {
+    const previous = this.entries.get(reference);
+    let ttl: number;
+    let failures = 0;
+
+    if (result.exists) {
+      ttl = immutable ? this.digestTtlMs : this.tagTtlMs;
+    } else {
+      failures = (previous?.failures ?? 0) + 1;
+      ttl = Math.min(this.negativeTtlMs * 2 ** (failures - 1), this.negativeMaxTtlMs);
+    }
+
+    // Re-insert so the map stays ordered by last write for eviction
+    this.entries.delete(reference);
+    if (ttl <= 0) {
+      this.updateGauge();
+      return;
+    }
+
+    this.entries.set(reference, { result, expiresAt: Date.now() + ttl, failures });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+    this.updateGauge();
+  }
+
+  /**
+   * Remove one entry, e.g. after the image was cloned
+   */
+  delete(reference: string): void {
+    this.entries.delete(reference);
+    this.updateGauge();
+  }
+
+  /**
+   * Remove all entries, or those whose reference matches a glob pattern
+   * Returns the number of removed entries
+   */
+  purge(pattern?: string): number {
+    let purged = 0;
+    for (const reference of [...this.entries.keys()]) {
+      if (pattern === undefined || reference === pattern || matchesGlob(reference, pattern)) {
+        this.entries.delete(reference);
+        purged++;
+      }
+    }
+    this.updateGauge();
+    return purged;
+  }
+
+  /**
+   * Number of cached entries, including expired ones kept for backoff
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private updateGauge(): void {
+    metrics.setGauge(METRICS.IMAGE_CACHE_ENTRIES, this.entries.size);
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, test, expect } from "bun:test";
+import { ImageExtractionRules, parseFieldPath } from "./image-extraction";
+
+describe("parseFieldPath", () => {
+  test("should parse fields, wildcards and indexes", () => {
+    expect(parseFieldPath("spec.template.spec.containers[*].image")).toEqual([
+      "spec", "template", "spec", "containers", "*", "image",
+    ]);
+    expect(parseFieldPath("$.spec.steps[0].image")).toEqual(["spec", "steps", 0, "image"]);
+  });
+
+  test("should parse quoted field names", () => {
+    expect(parseFieldPath("metadata.annotations['example.com/image']")).toEqual([
+      "metadata", "annotations", "example.com/image",
+    ]);
+  });
+
+  test("should reject malformed paths", () => {
+    expect(() => parseFieldPath("")).toThrow("Invalid image field path");
+    expect(() => parseFieldPath("spec..image")).toThrow("Invalid image field path");
+    expect(() => parseFieldPath("spec.steps[x].image")).toThrow("Invalid image field path");
+    expect(() => parseFieldPath("spec.image.")).toThrow("Invalid image field path");
+  });
+});
+
+describe("ImageExtractionRules", () => {
+  const rules = new ImageExtractionRules([
+    { group: "tekton.dev", kind: "Task", paths: ["spec.steps[*].image", "spec.sidecars[*].image"] },
+    { group: "kubevirt.io", version: "v1", kind: "VirtualMachine", paths: ["spec.template.spec.volumes[*].containerDisk.image"] },
+  ]);
+
+  test("should extract images with container names and paths", () => {
+    const task = {
+      spec: {
+        steps: [{ name: "build", image: "golang:1.22" }, { name: "test", image: "golang:1.22" }],
+        sidecars: [{ name: "docker", image: "docker:dind" }],
+      },
+    };
+
+    expect(rules.extract({ group: "tekton.dev", version: "v1", kind: "Task" }, task)).toEqual([
+      { image: "golang:1.22", containerName: "build", path: ["spec", "steps", 0, "image"] },
+      { image: "golang:1.22", containerName: "test", path: ["spec", "steps", 1, "image"] },
+      { image: "docker:dind", containerName: "docker", path: ["spec", "sidecars", 0, "image"] },
+    ]);
+  });
+
+  test("should name images after the nearest named parent", () => {
+    const vm = {
+      metadata: { name: "vm" },
+      spec: {
+        template: {
+          spec: { volumes: [{ name: "rootdisk", containerDisk: { image: "quay.io/containerdisks/fedora:39" } }, { name: "cloudinit" }] },
+        },
+      },
+    };
+
+    expect(rules.extract({ group: "kubevirt.io", version: "v1", kind: "VirtualMachine" }, vm)).toEqual([
+      {
+        image: "quay.io/containerdisks/fedora:39",
+        containerName: "rootdisk",
+        path: ["spec", "template", "spec", "volumes", 0, "containerDisk", "image"],
+      },
+    ]);
+  });
+
+  test("should return undefined for kinds without a rule", () => {
+    expect(rules.extract({ group: "", version: "v1", kind: "Pod" }, {})).toBeUndefined();
+    expect(rules.extract({ group: "kubevirt.io", version: "v1alpha3", kind: "VirtualMachine" }, {})).toBeUndefined();
+  });
+
+  test("should return empty list when paths are absent", () => {
+    expect(rules.extract({ group: "tekton.dev", version: "v1", kind: "Task" }, { spec: {} })).toEqual([]);
+  });
+
+  test("should reject rules without paths", () => {
+    expect(() => new ImageExtractionRules([{ kind: "Task", paths: [] }])).toThrow("Invalid image extraction rule");
+  });
+});
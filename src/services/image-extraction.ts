@@ -0,0 +1,187 @@
+import type { ContainerImageLocation } from "../types";
+import { loadJsonConfig } from "../utils/config-file";
+
+const IMAGE_EXTRACTION_PATH = "/config/image-extraction.json";
+
+/**
+ * An extraction rule as written in the configuration file
+ * e.g. { "group": "tekton.dev", "kind": "Task", "paths": ["spec.steps[*].image"] }
+ * Paths are relative to the object root and use a JSONPath-style syntax:
+ * dotted field names, [n] for an array index, [*] for every element and
+ * ['field.with.dots'] for field names containing dots
+ */
+export interface ImageExtractionRuleConfig {
+  // API group, "" for the core group; omitted or "*" matches any group
+  group?: string;
+  // API version; omitted or "*" matches any version
+  version?: string;
+  kind: string;
+  paths: string[];
+}
+
+export interface ImageExtractionConfig {
+  rules: ImageExtractionRuleConfig[];
+}
+
+export interface GroupVersionKind {
+  group: string;
+  version: string;
+  kind: string;
+}
+
+type PathSegment = string | number | "*";
+
+interface CompiledExtractionRule {
+  group?: string;
+  version?: string;
+  kind: string;
+  paths: PathSegment[][];
+}
+
+/**
+ * Configured image field paths per group/version/kind
+ * Kinds without a rule are left to the built-in extractors
+ */
+export class ImageExtractionRules {
+  private rules: CompiledExtractionRule[];
+
+  constructor(rules: ImageExtractionRuleConfig[]) {
+    this.rules = rules.map(compileExtractionRule);
+  }
+
+  /**
+   * Extract images from an object using the first rule matching its kind
+   * Returns undefined when no rule applies to the kind
+   */
+  extract(gvk: GroupVersionKind, object: unknown): ContainerImageLocation[] | undefined {
+    const rule = this.rules.find((r) =>
+      r.kind === gvk.kind &&
+      (r.group === undefined || r.group === gvk.group) &&
+      (r.version === undefined || r.version === gvk.version)
+    );
+    if (!rule) return undefined;
+
+    const locations: ContainerImageLocation[] = [];
+    for (const path of rule.paths) {
+      collectImages(object, path, [], undefined, locations);
+    }
+    return locations;
+  }
+
+  /**
+   * Number of configured rules
+   */
+  get size(): number {
+    return this.rules.length;
+  }
+}
+
+/**
+ * Walk a path, expanding wildcards, and record every string found at its end
+ * The container name is taken from the nearest enclosing object with a "name"
+ */
+function collectImages(
+  value: unknown,
+  remaining: PathSegment[],
+  path: Array<string | number>,
+  containerName: string | undefined,
+  locations: ContainerImageLocation[]
+): void {
+  if (remaining.length === 0) {
+    if (typeof value === "string" && value) {
+      locations.push({ image: value, containerName: containerName || path.join("."), path });
+    }
+    return;
+  }
+
+  if (!value || typeof value !== "object") return;
+
+  // Objects below the root that carry a name (containers, steps, volumes)
+  if (path.length > 0 && !Array.isArray(value)) {
+    const name = (value as Record<string, unknown>).name;
+    if (typeof name === "string") containerName = name;
+  }
+
+  const [segment, ...rest] = remaining;
+
+  if (segment === "*") {
+    if (!Array.isArray(value)) return;
+    value.forEach((item, index) => collectImages(item, rest, [...path, index], containerName, locations));
+    return;
+  }
+
+  if (typeof segment === "number") {
+    if (Array.isArray(value)) {
+      collectImages(value[segment], rest, [...path, segment], containerName, locations);
+    }
+    return;
+  }
+
+  if (!Array.isArray(value)) {
+    collectImages((value as Record<string, unknown>)[segment], rest, [...path, segment], containerName, locations);
+  }
+}
+
+/**
+ * Parse a JSONPath-style field path into segments
+ * e.g. "spec.template.spec.containers[*].image"
+ */
+export function parseFieldPath(fieldPath: string): PathSegment[] {
+  const source = fieldPath.replace(/^\$?\.?/, "");
+  const token = /([^.[\]]+)|\[(\*|\d+)\]|\['([^']+)'\]|\["([^"]+)"\]|(\.)/y;
+  const segments: PathSegment[] = [];
+
+  let expectField = true;
+  while (token.lastIndex < source.length) {
+    const start = token.lastIndex;
+    const match = token.exec(source);
+    const misplaced = expectField ? match?.[5] !== undefined : match?.[1] !== undefined;
+    if (!match || misplaced) {
+      throw new Error(`Invalid image field path "${fieldPath}" at position ${start}`);
+    }
+
+    if (match[5] !== undefined) {
+      expectField = true;
+      continue;
+    }
+
+    if (match[1] !== undefined) segments.push(match[1]);
+    else if (match[2] === "*") segments.push("*");
+    else if (match[2] !== undefined) segments.push(parseInt(match[2], 10));
+    else segments.push(match[3] ?? match[4]);
+    expectField = false;
+  }
+
+  if (segments.length === 0 || expectField) {
+    throw new Error(`Invalid image field path "${fieldPath}"`);
+  }
+
+  return segments;
+}
+
+function compileExtractionRule(rule: ImageExtractionRuleConfig): CompiledExtractionRule {
+  if (!rule?.kind || !Array.isArray(rule.paths) || rule.paths.length === 0) {
+    throw new Error(`Invalid image extraction rule: ${JSON.stringify(rule)}`);
+  }
+
+  return {
+    group: rule.group === "*" ? undefined : rule.group,
+    version: rule.version === "*" ? undefined : rule.version,
+    kind: rule.kind,
+    paths: rule.paths.map(parseFieldPath),
+  };
+}
+
+/**
+ * Load image extraction rules from a JSON file
+ * Without a rules file only the built-in workload kinds are inspected
+ */
+export async function loadImageExtractionRules(
+  path: string = IMAGE_EXTRACTION_PATH
+): Promise<ImageExtractionRules | undefined> {
+  return loadJsonConfig(path, {
+    name: "image extraction rules",
+    build: (config: ImageExtractionConfig) => new ImageExtractionRules(config.rules || []),
+    describe: (_, rules) => ({ ruleCount: rules.size }),
+  });
+}
@@ -1,2 +1,18 @@
 export * from "./registry-client";
 export * from "./metrics";
+export * from "./replication-queue";
+export * from "./registry-policy";
+export * from "./tag-policy";
+export * from "./target-mappings";
+export * from "./image-extraction";
+export * from "./failure-policy";
+export * from "./requester-policy";
+export * from "./image-cache";
+export * from "./process-scheduler";
+export * from "./circuit-breaker";
+export * from "./oci-client";
+export * from "./oci-copy";
+export * from "./registry-backend";
+export * from "./skopeo-backend";
+export * from "./native-backend";
+export * from "./memory-backend";
@@ -0,0 +1,101 @@
+import { describe, test, expect } from "bun:test";
+import { InMemoryRegistryBackend } from "./memory-backend";
+import { parseImageReference } from "../utils/image-parser";
+
+const digest = "sha256:" + "a".repeat(64);
+
+describe("InMemoryRegistryBackend", () => {
+  test("should resolve added images by tag and digest", async () => {
+    const backend = new InMemoryRegistryBackend();
+    backend.addImage("nginx:1.25", digest);
+
+    expect(await backend.inspect(parseImageReference("nginx:1.25"))).toBe(digest);
+    expect(await backend.inspect(parseImageReference(`nginx@${digest}`))).toBe(digest);
+    expect(await backend.inspect(parseImageReference("nginx:1.26"))).toBeNull();
+    expect(await backend.inspect(parseImageReference("ghcr.io/org/app:v1"))).toBeNull();
+  });
+
+  test("should derive a stable digest when none is given", () => {
+    const first = new InMemoryRegistryBackend().addImage("nginx:1.25");
+    const second = new InMemoryRegistryBackend().addImage("docker.io/library/nginx:1.25");
+
+    expect(first).toMatch(/^sha256:[0-9a-f]{64}$/);
+    expect(second).toBe(first);
+  });
+
+  test("should copy images to the target reference", async () => {
+    const backend = new InMemoryRegistryBackend();
+    backend.addImage("nginx:1.25", digest);
+
+    await backend.copy(parseImageReference("nginx:1.25"), parseImageReference("myregistry.io/library/nginx:1.25"));
+
+    expect(backend.hasImage("myregistry.io/library/nginx:1.25")).toBe(true);
+    expect(backend.hasImage(`myregistry.io/library/nginx@${digest}`)).toBe(true);
+  });
+
+  test("should fail copies of missing images as not found", async () => {
+    const backend = new InMemoryRegistryBackend();
+
+    await expect(
+      backend.copy(parseImageReference("nginx:1.25"), parseImageReference("myregistry.io/library/nginx:1.25"))
+    ).rejects.toThrow("manifest unknown");
+  });
+
+  test("should remove tags and manifests", () => {
+    const backend = new InMemoryRegistryBackend();
+    backend.addImage("app:v1", digest);
+    backend.addImage("app:stable", digest);
+
+    backend.removeImage("app:v1");
+    expect(backend.hasImage("app:v1")).toBe(false);
+    expect(backend.hasImage("app:stable")).toBe(true);
+
+    backend.removeImage(`app@${digest}`);
+    expect(backend.hasImage("app:stable")).toBe(false);
+  });
+
+  test("should list tags sorted", async () => {
+    const backend = new InMemoryRegistryBackend();
+    backend.addImage("app:v2");
+    backend.addImage("app:v1");
+
+    expect(await backend.listTags(parseImageReference("app"))).toEqual(["v1", "v2"]);
+    expect(await backend.listTags(parseImageReference("other"))).toEqual([]);
+  });
+
+  test("should fail every operation against a failed registry until it recovers", async () => {
+    const backend = new InMemoryRegistryBackend();
+    backend.addImage("ghcr.io/org/app:v1");
+
+    backend.failRegistry("ghcr.io");
+    await expect(backend.inspect(parseImageReference("ghcr.io/org/app:v1"))).rejects.toThrow("ECONNREFUSED");
+    await expect(backend.ping("ghcr.io")).rejects.toThrow("ECONNREFUSED");
+    await expect(
+      backend.copy(parseImageReference("ghcr.io/org/app:v1"), parseImageReference("myregistry.io/org/app:v1"))
+    ).rejects.toThrow("ECONNREFUSED");
+
+    backend.recoverRegistry("ghcr.io");
+    expect(await backend.inspect(parseImageReference("ghcr.io/org/app:v1"))).not.toBeNull();
+  });
+
+  test("should record operations in order", async () => {
+    const backend = new InMemoryRegistryBackend();
+    await backend.ping("ghcr.io");
+    await backend.inspect(parseImageReference("ghcr.io/org/app:v1"));
+
+    expect(backend.operations).toEqual([
+      { operation: "ping", reference: "ghcr.io" },
+      { operation: "inspect", reference: "ghcr.io/org/app:v1" },
+    ]);
+  });
+
+  test("should abort operations waiting out the latency", async () => {
+    const backend = new InMemoryRegistryBackend({ latencyMs: 1000 });
+    const controller = new AbortController();
+
+    const inspect = backend.inspect(parseImageReference("nginx:1.25"), controller.signal);
+    controller.abort(new Error("cancelled"));
+
+    await expect(inspect).rejects.toThrow("cancelled");
+  });
+});
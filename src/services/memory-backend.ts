@@ -0,0 +1,172 @@
+import type { ImageReference } from "../types";
+import type { RegistryBackend } from "./registry-backend";
+import { parseImageReference, formatImageReference } from "../utils/image-parser";
+import { sleep } from "../utils/retry";
+
+export interface InMemoryBackendOptions {
+  // Delay added to every operation, to stand in for registry round trips
+  latencyMs?: number;
+}
+
+/**
+ * An operation the in-memory backend was asked to perform
+ */
+export interface BackendOperation {
+  operation: "inspect" | "copy" | "ping" | "listTags";
+  // Normalized image reference, "source -> target" for copies, the registry for pings
+  reference: string;
+}
+
+interface StoredRepository {
+  tags: Map<string, string>;
+  digests: Set<string>;
+}
+
+/**
+ * Registry backend holding images in memory
+ * For tests and benchmarks that run the admission path end to end without a
+ * registry or skopeo. Images are added up front, copies are recorded as new
+ * images and registries can be made to fail to exercise error handling.
+ */
+export class InMemoryRegistryBackend implements RegistryBackend {
+  readonly name = "memory";
+  // Every operation in the order it was requested
+  readonly operations: BackendOperation[] = [];
+  private latencyMs: number;
+  // "registry/repository" -> stored manifests
+  private repositories = new Map<string, StoredRepository>();
+  // registry -> error message thrown by every operation against it
+  private failures = new Map<string, string>();
+
+  constructor(options: InMemoryBackendOptions = {}) {
+    this.latencyMs = options.latencyMs ?? 0;
+  }
+
+  /**
+   * Store an image, by tag unless the reference has a digest
+   * Returns its digest, derived from the reference when none is given
+   */
+  addImage(image: string, digest?: string): string {
+    const imageRef = parseImageReference(image);
+    const manifestDigest = digest || imageRef.digest || fakeDigest(formatImageReference(imageRef));
+    this.store(imageRef, manifestDigest);
+    return manifestDigest;
+  }
+
+  /**
+   * Remove a tag, or a manifest and every tag pointing at it
+   */
+  removeImage(image: string): void {
+    const imageRef = parseImageReference(image);
+    const repository = this.repositories.get(repositoryKey(imageRef));
+    if (!repository) return;
+
+    if (imageRef.digest) {
+      repository.digests.delete(imageRef.digest);
+      for (const [tag, digest] of repository.tags) {
+        if (digest === imageRef.digest) repository.tags.delete(tag);
+      }
+    } else {
+      repository.tags.delete(imageRef.tag || "latest");
+    }
+  }
+
+  /**
+   * Whether an image is stored
+   */
+  hasImage(image: string): boolean {
+    return this.resolve(parseImageReference(image)) !== null;
+  }
+
+  /**
+   * Make every operation against a registry throw, until recoverRegistry is called
+   * Defaults to a connection failure, which counts as an outage
+   */
+  failRegistry(registry: string, message = `Request to ${registry} failed: Connection refused (ECONNREFUSED)`): void {
+    this.failures.set(registry, message);
+  }
+
+  recoverRegistry(registry: string): void {
+    this.failures.delete(registry);
+  }
+
+  async inspect(image: ImageReference, signal?: AbortSignal): Promise<string | null> {
+    await this.perform("inspect", formatImageReference(image), [image.registry], signal);
+    return this.resolve(image);
+  }
+
+  async copy(source: ImageReference, target: ImageReference, signal?: AbortSignal): Promise<void> {
+    const reference = `${formatImageReference(source)} -> ${formatImageReference(target)}`;
+    await this.perform("copy", reference, [source.registry, target.registry], signal);
+
+    const digest = this.resolve(source);
+    if (digest === null) {
+      throw new Error(`manifest unknown: ${formatImageReference(source)} not found`);
+    }
+    this.store(target, digest);
+  }
+
+  async ping(registry: string, signal?: AbortSignal): Promise<void> {
+    await this.perform("ping", registry, [registry], signal);
+  }
+
+  async listTags(image: ImageReference, signal?: AbortSignal): Promise<string[]> {
+    await this.perform("listTags", repositoryKey(image), [image.registry], signal);
+    return [...(this.repositories.get(repositoryKey(image))?.tags.keys() || [])].sort();
+  }
+
+  /**
+   * Record an operation, wait out the latency and fail it if a registry is down
+   */
+  private async perform(
+    operation: BackendOperation["operation"],
+    reference: string,
+    registries: string[],
+    signal?: AbortSignal
+  ): Promise<void> {
+    this.operations.push({ operation, reference });
+    signal?.throwIfAborted();
+    if (this.latencyMs > 0) {
+      await sleep(this.latencyMs, signal);
+    }
+
+    for (const registry of registries) {
+      const failure = this.failures.get(registry);
+      if (failure) throw new Error(failure);
+    }
+  }
+
+  private resolve(imageRef: ImageReference): string | null {
+    const repository = this.repositories.get(repositoryKey(imageRef));
+    if (!repository) return null;
+    if (imageRef.digest) {
+      return repository.digests.has(imageRef.digest) ? imageRef.digest : null;
+    }
+    return repository.tags.get(imageRef.tag || "latest") ?? null;
+  }
+
+  private store(imageRef: ImageReference, digest: string): void {
+    const key = repositoryKey(imageRef);
+    let repository = this.repositories.get(key);
+    if (!repository) {
+      repository = { tags: new Map(), digests: new Set() };
+      this.repositories.set(key, repository);
+    }
+
+    repository.digests.add(digest);
+    if (!imageRef.digest) {
+      repository.tags.set(imageRef.tag || "latest", digest);
+    }
+  }
+}
+
+function repositoryKey(imageRef: ImageReference): string {
+  return `${imageRef.registry}/${imageRef.repository}`;
+}
+
+/**
+ * Stable digest for images added without one
+ */
+function fakeDigest(reference: string): string {
+  return `sha256:${new Bun.CryptoHasher("sha256").update(reference).digest("hex")}`;
+}
@@ -211,9 +211,25 @@ export const METRICS = {
   IMAGE_VALIDATION_TOTAL: "webhook_image_validation_total",
   IMAGE_VALIDATION_DURATION: "webhook_image_validation_duration_seconds",
   REGISTRY_REQUEST_DURATION: "webhook_registry_request_duration_seconds",
+  REGISTRY_RETRIES_TOTAL: "webhook_registry_retries_total",
+  CIRCUIT_BREAKER_STATE: "webhook_circuit_breaker_state",
+  CIRCUIT_BREAKER_SHORT_CIRCUITS: "webhook_circuit_breaker_short_circuits_total",
   TOKEN_CACHE_HITS: "webhook_token_cache_hits_total",
   TOKEN_CACHE_MISSES: "webhook_token_cache_misses_total",
   REQUESTS_IN_FLIGHT: "webhook_requests_in_flight",
   IMAGE_CLONE_TOTAL: "webhook_image_clone_total",
   IMAGE_CLONE_DURATION: "webhook_image_clone_duration_seconds",
+  IMAGE_REWRITE_TOTAL: "webhook_image_rewrite_total",
+  IMAGE_COPY_BLOBS_TOTAL: "webhook_image_copy_blobs_total",
+  IMAGE_COPY_BYTES_TOTAL: "webhook_image_copy_bytes_total",
+  REPLICATION_QUEUE_DEPTH: "webhook_replication_queue_depth",
+  REPLICATION_IN_PROGRESS: "webhook_replication_in_progress",
+  REPLICATION_JOBS_TOTAL: "webhook_replication_jobs_total",
+  IMAGE_CACHE_HITS: "webhook_image_cache_hits_total",
+  IMAGE_CACHE_MISSES: "webhook_image_cache_misses_total",
+  IMAGE_CACHE_ENTRIES: "webhook_image_cache_entries",
+  COALESCED_REQUESTS_TOTAL: "webhook_coalesced_requests_total",
+  REGISTRY_OPERATIONS_RUNNING: "webhook_registry_operations_running",
+  REGISTRY_OPERATION_QUEUE_DEPTH: "webhook_registry_operation_queue_depth",
+  REGISTRY_OPERATION_QUEUE_WAIT: "webhook_registry_operation_queue_wait_seconds",
 };
@@ -0,0 +1,79 @@
+import { describe, test, expect, mock, beforeEach, afterEach } from "bun:test";
+import { NativeBackend } from "./native-backend";
+import { parseImageReference } from "../utils/image-parser";
+
+describe("NativeBackend", () => {
+  let originalFetch: typeof fetch;
+
+  beforeEach(() => {
+    originalFetch = globalThis.fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  describe("ping", () => {
+    test("should treat a credentials challenge as connected", async () => {
+      globalThis.fetch = mock(async () => new Response(null, { status: 401 })) as any;
+
+      await new NativeBackend({ credentials: new Map() }).ping("registry.example.com");
+
+      expect(globalThis.fetch).toHaveBeenCalled();
+    });
+
+    test("should fail on server errors", async () => {
+      globalThis.fetch = mock(async () => new Response(null, { status: 503, statusText: "Service Unavailable" })) as any;
+
+      await expect(new NativeBackend({ credentials: new Map() }).ping("registry.example.com")).rejects.toThrow(
+        "registry.example.com answered the version check with 503 Service Unavailable"
+      );
+    });
+
+    test("should fail when the registry cannot be reached", async () => {
+      globalThis.fetch = mock(async () => {
+        throw Object.assign(new Error("Unable to connect"), { code: "ConnectionRefused" });
+      }) as any;
+
+      await expect(new NativeBackend({ credentials: new Map() }).ping("registry.example.com")).rejects.toThrow(
+        "Request to registry.example.com failed: Unable to connect (ConnectionRefused)"
+      );
+    });
+  });
+
+  describe("listTags", () => {
+    test("should follow Link pagination", async () => {
+      const urls: string[] = [];
+      globalThis.fetch = mock(async (url: string | URL | Request) => {
+        urls.push(String(url));
+        if (String(url).includes("last=v2")) {
+          return Response.json({ name: "team/app", tags: ["v3"] });
+        }
+        return Response.json(
+          { name: "team/app", tags: ["v1", "v2"] },
+          { headers: { Link: '</v2/team/app/tags/list?n=2&last=v2>; rel="next"' } }
+        );
+      }) as any;
+
+      const tags = await new NativeBackend({ credentials: new Map() }).listTags(
+        parseImageReference("registry.example.com/team/app:v1")
+      );
+
+      expect(tags).toEqual(["v1", "v2", "v3"]);
+      expect(urls).toEqual([
+        "https://registry.example.com/v2/team/app/tags/list?n=1000",
+        "https://registry.example.com/v2/team/app/tags/list?n=2&last=v2",
+      ]);
+    });
+
+    test("should return no tags for a missing repository", async () => {
+      globalThis.fetch = mock(async () => new Response(null, { status: 404 })) as any;
+
+      const tags = await new NativeBackend({ credentials: new Map() }).listTags(
+        parseImageReference("registry.example.com/team/missing")
+      );
+
+      expect(tags).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import type { ImageReference, RegistryAuthConfig } from "../types";
+import type { RegistryBackend } from "./registry-backend";
+import { PING_TIMEOUT_MS } from "./registry-backend";
+import { OciRegistryClient, describeFailure } from "./oci-client";
+import { OciImageCopier, type OciCopyOptions } from "./oci-copy";
+import { logger } from "../utils/logger";
+
+// Tags requested per page when listing a repository
+const TAGS_PAGE_SIZE = 1000;
+
+/**
+ * Backend speaking the OCI Distribution API in-process
+ * Inspects with a HEAD request and copies with the native copier, sharing
+ * one token cache between both
+ */
+export class NativeBackend implements RegistryBackend {
+  readonly name = "native";
+  private client: OciRegistryClient;
+  private copier: OciImageCopier;
+
+  constructor(
+    authConfig: RegistryAuthConfig,
+    insecureRegistries: string[] = [],
+    private timeout: number = 240000,
+    copyOptions: OciCopyOptions = {}
+  ) {
+    this.client = new OciRegistryClient(authConfig, insecureRegistries, timeout);
+    this.copier = new OciImageCopier(this.client, copyOptions);
+  }
+
+  /**
+   * Look up a manifest with HEAD /v2/<repository>/manifests/<reference>
+   */
+  async inspect(image: ImageReference, signal?: AbortSignal): Promise<string | null> {
+    try {
+      return await this.client.headManifest(image, signal);
+    } catch (error) {
+      if (error instanceof Error && error.message === "timeout") {
+        throw new Error(`Request to ${image.registry} timed out after ${this.timeout}ms`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Copy all architectures of an image with the in-process copier
+   */
+  async copy(source: ImageReference, target: ImageReference, signal?: AbortSignal): Promise<void> {
+    const timeoutSignal = AbortSignal.timeout(this.timeout);
+    try {
+      const stats = await this.copier.copy(
+        source,
+        target,
+        signal ? AbortSignal.any([signal, timeoutSignal]) : timeoutSignal
+      );
+      logger.debug("Native copy finished", { target: target.fullImage, ...stats.blobs, bytesUploaded: stats.bytesUploaded });
+    } catch (error) {
+      if (timeoutSignal.aborted && !signal?.aborted) {
+        throw new Error(`Copy to ${target.registry} timed out after ${this.timeout}ms`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Request the API version check endpoint, GET /v2/
+   * A 401 is an answer too: the registry is up but wants credentials
+   */
+  async ping(registry: string, signal?: AbortSignal): Promise<void> {
+    const timeoutSignal = AbortSignal.timeout(PING_TIMEOUT_MS);
+    let response: Response;
+    try {
+      response = await this.client.send(
+        registry,
+        [],
+        "/v2/",
+        {},
+        signal ? AbortSignal.any([signal, timeoutSignal]) : timeoutSignal
+      );
+    } catch (error) {
+      if (timeoutSignal.aborted && !signal?.aborted) {
+        throw new Error(`Connection timeout after ${PING_TIMEOUT_MS / 1000}s`);
+      }
+      throw error;
+    }
+
+    if (!response.ok && response.status !== 401) {
+      throw new Error(describeFailure(registry, response, "version check"));
+    }
+  }
+
+  /**
+   * List tags with GET /v2/<repository>/tags/list, following Link pagination
+   */
+  async listTags(image: ImageReference, signal?: AbortSignal): Promise<string[]> {
+    const scopes = [`repository:${image.repository}:pull`];
+    const tags: string[] = [];
+    let path: string | undefined = `/v2/${image.repository}/tags/list?n=${TAGS_PAGE_SIZE}`;
+
+    while (path) {
+      const response = await this.client.send(image.registry, scopes, path, {}, signal);
+      if (response.status === 404) {
+        return [];
+      }
+      if (!response.ok) {
+        throw new Error(describeFailure(image.registry, response, `tag list of ${image.repository}`));
+      }
+
+      const body = (await response.json()) as { tags?: string[] | null };
+      tags.push(...(body.tags || []));
+      path = nextPage(response);
+    }
+
+    return tags;
+  }
+
+  clearTokenCache(): void {
+    this.client.clearTokenCache();
+  }
+}
+
+/**
+ * Next page from a Link header, e.g. </v2/app/tags/list?n=100&last=v9>; rel="next"
+ * Resolved against the request so relative and absolute links both work
+ */
+function nextPage(response: Response): string | undefined {
+  const link = response.headers.get("link");
+  const match = link?.match(/<([^>]+)>\s*;\s*rel="?next"?/);
+  if (!match) return undefined;
+  return response.url ? new URL(match[1], response.url).toString() : match[1];
+}
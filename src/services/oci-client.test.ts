@@ -0,0 +1,116 @@
+import { describe, test, expect, mock, beforeEach, afterEach } from "bun:test";
+import { OciRegistryClient } from "./oci-client";
+import { parseImageReference } from "../utils/image-parser";
+import type { RegistryAuthConfig } from "../types";
+
+const digest = "sha256:" + "a".repeat(64);
+const challenge = 'Bearer realm="https://auth.example.com/token",service="registry.example.com"';
+
+describe("OciRegistryClient", () => {
+  let authConfig: RegistryAuthConfig;
+  let originalFetch: typeof fetch;
+
+  beforeEach(() => {
+    authConfig = {
+      credentials: new Map([["registry.example.com", { registry: "registry.example.com", username: "user", password: "pass" }]]),
+    };
+    originalFetch = globalThis.fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  /**
+   * Fake registry that requires a bearer token and knows a single manifest
+   */
+  function fakeRegistry() {
+    const requests: Array<{ method: string; url: string; authorization?: string }> = [];
+    const handler = mock(async (url: string | URL | Request, init?: RequestInit) => {
+      const authorization = new Headers(init?.headers).get("Authorization") ?? undefined;
+      requests.push({ method: init?.method || "GET", url: String(url), authorization });
+
+      if (String(url).startsWith("https://auth.example.com/token")) {
+        return Response.json({ token: "t0ken", expires_in: 300 });
+      }
+      if (authorization !== "Bearer t0ken") {
+        return new Response(null, { status: 401, headers: { "WWW-Authenticate": challenge } });
+      }
+      if (String(url).endsWith("/v2/team/app/manifests/v1")) {
+        return new Response(null, { status: 200, headers: { "Docker-Content-Digest": digest } });
+      }
+      return new Response(null, { status: 404 });
+    });
+    globalThis.fetch = handler as unknown as typeof fetch;
+    return requests;
+  }
+
+  test("should negotiate a bearer token and return the manifest digest", async () => {
+    const requests = fakeRegistry();
+    const client = new OciRegistryClient(authConfig);
+
+    const result = await client.headManifest(parseImageReference("registry.example.com/team/app:v1"));
+
+    expect(result).toBe(digest);
+    expect(requests.map((r) => r.method)).toEqual(["HEAD", "GET", "HEAD"]);
+    const tokenUrl = new URL(requests[1].url);
+    expect(tokenUrl.searchParams.get("service")).toBe("registry.example.com");
+    expect(tokenUrl.searchParams.get("scope")).toBe("repository:team/app:pull");
+    expect(requests[1].authorization).toBe(`Basic ${btoa("user:pass")}`);
+  });
+
+  test("should reuse cached tokens until the cache is cleared", async () => {
+    const requests = fakeRegistry();
+    const client = new OciRegistryClient(authConfig);
+    const ref = parseImageReference("registry.example.com/team/app:v1");
+
+    await client.headManifest(ref);
+    await client.headManifest(ref);
+    expect(requests).toHaveLength(4);
+    expect(requests[3].authorization).toBe("Bearer t0ken");
+
+    client.clearTokenCache();
+    await client.headManifest(ref);
+    expect(requests).toHaveLength(7);
+  });
+
+  test("should return null for missing manifests", async () => {
+    fakeRegistry();
+    const client = new OciRegistryClient(authConfig);
+
+    expect(await client.headManifest(parseImageReference("registry.example.com/team/app:v2"))).toBeNull();
+  });
+
+  test("should describe server errors with status and Retry-After", async () => {
+    globalThis.fetch = mock(async () =>
+      new Response(null, { status: 429, statusText: "Too Many Requests", headers: { "Retry-After": "3" } })
+    ) as unknown as typeof fetch;
+    const client = new OciRegistryClient(authConfig);
+
+    await expect(client.headManifest(parseImageReference("registry.example.com/team/app:v1"))).rejects.toThrow(
+      "registry.example.com answered the manifest request with 429 Too Many Requests, Retry-After: 3"
+    );
+  });
+
+  test("should report rejected credentials as unauthorized", async () => {
+    globalThis.fetch = mock(async (url: string | URL | Request) =>
+      String(url).includes("/token")
+        ? new Response(null, { status: 401, statusText: "Unauthorized" })
+        : new Response(null, { status: 401, headers: { "WWW-Authenticate": challenge } })
+    ) as unknown as typeof fetch;
+    const client = new OciRegistryClient(authConfig);
+
+    await expect(client.headManifest(parseImageReference("registry.example.com/team/app:v1"))).rejects.toThrow(
+      "unauthorized"
+    );
+  });
+
+  test("should throw timeout when the request takes too long", async () => {
+    globalThis.fetch = mock((_url: string | URL | Request, init?: RequestInit) =>
+      new Promise<Response>((_, reject) => init?.signal?.addEventListener("abort", () => reject(init.signal!.reason)))
+    ) as unknown as typeof fetch;
+    const client = new OciRegistryClient(authConfig, [], 10);
+
+    await expect(client.headManifest(parseImageReference("registry.example.com/team/app:v1"))).rejects.toThrow("timeout");
+  });
+});
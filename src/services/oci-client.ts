@@ -0,0 +1,217 @@
+import type { ImageReference, RegistryAuthConfig, RegistryTokenResponse } from "../types";
+import { getRegistryApiUrl, getAuthRealm, parseWwwAuthenticate } from "../utils/image-parser";
+import { getCredentialsForRegistry } from "../utils/credentials";
+import { metrics, METRICS } from "./metrics";
+import { logger } from "../utils/logger";
+
+// Manifest types accepted on lookup, so multi-arch images are answered with their index
+export const MANIFEST_ACCEPT = [
+  "application/vnd.oci.image.index.v1+json",
+  "application/vnd.oci.image.manifest.v1+json",
+  "application/vnd.docker.distribution.manifest.list.v2+json",
+  "application/vnd.docker.distribution.manifest.v2+json",
+].join(", ");
+
+// Tokens without expires_in are valid for 60 seconds (distribution token spec)
+const DEFAULT_TOKEN_TTL_SECONDS = 60;
+// Tokens are refreshed this long before they expire
+const TOKEN_EXPIRY_MARGIN_MS = 10000;
+
+interface CachedAuthorization {
+  header: string;
+  expiresAt: number;
+}
+
+/**
+ * In-process client for the OCI Distribution API
+ * Answers existence checks with HEAD /v2/<repository>/manifests/<reference>
+ * instead of forking skopeo. Bearer tokens are negotiated from the registry's
+ * WWW-Authenticate challenge and cached per registry and repository scope.
+ */
+export class OciRegistryClient {
+  private tokens = new Map<string, CachedAuthorization>();
+
+  constructor(
+    private authConfig: RegistryAuthConfig,
+    private insecureRegistries: string[] = [],
+    private timeout: number = 240000
+  ) {}
+
+  /**
+   * Look up a manifest with a HEAD request
+   * Returns the manifest digest, or null if the image does not exist.
+   * Throws Error("timeout") when the request timeout elapses.
+   */
+  async headManifest(imageRef: ImageReference, signal?: AbortSignal): Promise<string | null> {
+    const startTime = Date.now();
+    const registry = imageRef.registry;
+    const reference = imageRef.digest || imageRef.tag || "latest";
+
+    const timeoutSignal = AbortSignal.timeout(this.timeout);
+    const requestSignal = signal ? AbortSignal.any([signal, timeoutSignal]) : timeoutSignal;
+
+    try {
+      const response = await this.send(
+        registry,
+        [`repository:${imageRef.repository}:pull`],
+        `/v2/${imageRef.repository}/manifests/${reference}`,
+        { method: "HEAD", headers: { Accept: MANIFEST_ACCEPT } },
+        requestSignal
+      );
+
+      metrics.observeHistogram(METRICS.REGISTRY_REQUEST_DURATION, (Date.now() - startTime) / 1000, {
+        registry,
+        status: String(response.status),
+      });
+
+      if (response.ok) {
+        return response.headers.get("docker-content-digest") || imageRef.digest || "";
+      }
+      if (response.status === 404) {
+        return null;
+      }
+      throw new Error(describeFailure(registry, response));
+    } catch (error) {
+      if (timeoutSignal.aborted && !signal?.aborted) {
+        throw new Error("timeout");
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Send an authorized request to a registry
+   * path is relative to the registry's API URL, or an absolute URL such as an
+   * upload location. A 401 challenge is answered and the request repeated once,
+   * unless its body is a stream that cannot be sent twice.
+   */
+  async send(
+    registry: string,
+    scopes: string[],
+    path: string,
+    init: RequestInit,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const url = new URL(path, getRegistryApiUrl(registry, this.insecureRegistries)).toString();
+    const cacheKey = `${registry}|${scopes.join(" ")}`;
+
+    const cached = this.getCachedAuthorization(cacheKey);
+    const response = await this.request(url, init, cached, signal);
+    if (response.status !== 401 || init.body instanceof ReadableStream) {
+      return response;
+    }
+
+    // No token yet, or the cached one expired or was revoked
+    this.tokens.delete(cacheKey);
+    const authorization = await this.authenticate(
+      registry,
+      scopes,
+      response.headers.get("www-authenticate"),
+      cacheKey,
+      signal
+    );
+    return authorization ? this.request(url, init, authorization, signal) : response;
+  }
+
+  /**
+   * Drop all cached tokens
+   */
+  clearTokenCache(): void {
+    this.tokens.clear();
+  }
+
+  private getCachedAuthorization(cacheKey: string): string | undefined {
+    const cached = this.tokens.get(cacheKey);
+    if (!cached) return undefined;
+    if (cached.expiresAt <= Date.now()) {
+      this.tokens.delete(cacheKey);
+      return undefined;
+    }
+    metrics.incrementCounter(METRICS.TOKEN_CACHE_HITS, { registry: cacheKey.split("|")[0] });
+    return cached.header;
+  }
+
+  /**
+   * Answer a 401 challenge with basic credentials or a bearer token
+   * Returns undefined when the challenge cannot be answered
+   */
+  private async authenticate(
+    registry: string,
+    scopes: string[],
+    challenge: string | null,
+    cacheKey: string,
+    signal?: AbortSignal
+  ): Promise<string | undefined> {
+    metrics.incrementCounter(METRICS.TOKEN_CACHE_MISSES, { registry });
+    const creds = getCredentialsForRegistry(this.authConfig, registry);
+    const basic = creds ? `Basic ${btoa(`${creds.username}:${creds.password}`)}` : undefined;
+
+    if (challenge && /^basic\b/i.test(challenge)) {
+      if (basic) {
+        this.tokens.set(cacheKey, { header: basic, expiresAt: Infinity });
+      }
+      return basic;
+    }
+
+    // Fall back to the well-known realm when the challenge cannot be parsed
+    const params = challenge ? parseWwwAuthenticate(challenge) : null;
+    const realm = params?.realm || getAuthRealm(registry);
+    if (!realm) {
+      return undefined;
+    }
+
+    const tokenUrl = new URL(realm);
+    if (params?.service) tokenUrl.searchParams.set("service", params.service);
+    for (const scope of scopes) tokenUrl.searchParams.append("scope", scope);
+
+    logger.debug("Requesting registry token", { registry, realm, scopes: scopes.join(" ") });
+    const response = await this.request(tokenUrl.toString(), { headers: { Accept: "application/json" } }, basic, signal);
+    if (!response.ok) {
+      throw new Error(describeFailure(registry, response, "token request"));
+    }
+
+    const body = (await response.json()) as RegistryTokenResponse;
+    const token = body.token || body.access_token;
+    if (!token) {
+      throw new Error(`Token response from ${realm} contained no token`);
+    }
+
+    const header = `Bearer ${token}`;
+    const ttlMs = (body.expires_in || DEFAULT_TOKEN_TTL_SECONDS) * 1000;
+    const issuedAt = body.issued_at ? Date.parse(body.issued_at) || Date.now() : Date.now();
+    this.tokens.set(cacheKey, { header, expiresAt: issuedAt + ttlMs - TOKEN_EXPIRY_MARGIN_MS });
+    return header;
+  }
+
+  private async request(
+    url: string,
+    init: RequestInit,
+    authorization: string | undefined,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const headers = new Headers(init.headers);
+    if (authorization) headers.set("Authorization", authorization);
+
+    try {
+      return await fetch(url, { redirect: "follow", ...init, headers, signal });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      // Keep the error code, it is what tells network failures apart
+      const code = (error as { code?: string }).code;
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Request to ${new URL(url).host} failed: ${message}${code ? ` (${code})` : ""}`);
+    }
+  }
+}
+
+/**
+ * Describe a failed registry response so that registry-errors can classify it
+ */
+export function describeFailure(registry: string, response: Response, operation = "manifest request"): string {
+  const status = `${response.status} ${response.statusText}`.trim();
+  if (response.status === 401 || response.status === 403) {
+    return `unauthorized: ${registry} rejected the ${operation} with ${status}`;
+  }
+  const retryAfter = response.headers.get("retry-after");
+  return `${registry} answered the ${operation} with ${status}${retryAfter ? `, Retry-After: ${retryAfter}` : ""}`;
+}
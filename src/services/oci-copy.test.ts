@@ -0,0 +1,197 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { OciImageCopier } from "./oci-copy";
+import { OciRegistryClient } from "./oci-client";
+import { parseImageReference } from "../utils/image-parser";
+
+function sha256(data: Uint8Array | string): string {
+  return `sha256:${new Bun.CryptoHasher("sha256").update(data).digest("hex")}`;
+}
+
+/**
+ * Minimal in-memory Distribution API for a set of registries, served through a fetch mock
+ */
+function fakeRegistries() {
+  const manifests = new Map<string, { body: string; mediaType: string }>(); // "host/repo@ref"
+  const blobs = new Map<string, Uint8Array>(); // "host/repo@digest"
+  const uploads = new Map<string, Uint8Array[]>();
+  const requests: string[] = [];
+  let uploadId = 0;
+
+  const handler = async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    const url = new URL(String(input));
+    const method = init?.method || "GET";
+    requests.push(`${method} ${url.host}${url.pathname}${url.search}`);
+    const match = url.pathname.match(/^\/v2\/(.+)\/(manifests|blobs)\/(.+)$/);
+
+    if (match && match[2] === "manifests") {
+      const key = `${url.host}/${match[1]}@${match[3]}`;
+      if (method === "PUT") {
+        const body = new TextDecoder().decode(init!.body as Uint8Array);
+        const headers = new Headers(init!.headers);
+        manifests.set(key, { body, mediaType: headers.get("Content-Type")! });
+        return new Response(null, { status: 201 });
+      }
+      const manifest = manifests.get(key);
+      if (!manifest) return new Response(null, { status: 404 });
+      return new Response(method === "HEAD" ? null : manifest.body, {
+        headers: { "Content-Type": manifest.mediaType, "Docker-Content-Digest": sha256(manifest.body) },
+      });
+    }
+
+    const uploadMatch = url.pathname.match(/^\/v2\/(.+)\/blobs\/uploads\/(.*)$/);
+    if (uploadMatch) {
+      const repository = uploadMatch[1];
+      if (method === "POST") {
+        const mount = url.searchParams.get("mount");
+        const from = url.searchParams.get("from");
+        const mounted = mount && from && blobs.get(`${url.host}/${from}@${mount}`);
+        if (mounted) {
+          blobs.set(`${url.host}/${repository}@${mount}`, mounted);
+          return new Response(null, { status: 201 });
+        }
+        const id = String(++uploadId);
+        uploads.set(id, []);
+        return new Response(null, { status: 202, headers: { Location: `/v2/${repository}/blobs/uploads/${id}` } });
+      }
+
+      const id = uploadMatch[2];
+      const parts = uploads.get(id)!;
+      if (init?.body) {
+        parts.push(new Uint8Array(await new Response(init.body).arrayBuffer()));
+      }
+      if (method === "PATCH") {
+        return new Response(null, { status: 202, headers: { Location: `/v2/${repository}/blobs/uploads/${id}` } });
+      }
+      const data = new Uint8Array(Buffer.concat(parts));
+      const digest = url.searchParams.get("digest")!;
+      if (sha256(data) !== digest) return new Response(null, { status: 400 });
+      blobs.set(`${url.host}/${repository}@${digest}`, data);
+      return new Response(null, { status: 201 });
+    }
+
+    if (match && match[2] === "blobs") {
+      const blob = blobs.get(`${url.host}/${match[1]}@${match[3]}`);
+      if (!blob) return new Response(null, { status: 404 });
+      return new Response(method === "HEAD" ? null : blob);
+    }
+
+    return new Response(null, { status: 404 });
+  };
+
+  /**
+   * Store an image with the given layers and return its manifest digest
+   */
+  function pushImage(host: string, repository: string, tag: string, layers: string[]): string {
+    const config = new TextEncoder().encode(JSON.stringify({ layers: layers.length }));
+    const descriptors = [config, ...layers.map((l) => new TextEncoder().encode(l))].map((data) => {
+      const digest = sha256(data);
+      blobs.set(`${host}/${repository}@${digest}`, data);
+      return { mediaType: "application/octet-stream", digest, size: data.length };
+    });
+    const body = JSON.stringify({
+      schemaVersion: 2,
+      mediaType: "application/vnd.oci.image.manifest.v1+json",
+      config: descriptors[0],
+      layers: descriptors.slice(1),
+    });
+    const digest = sha256(body);
+    manifests.set(`${host}/${repository}@${digest}`, { body, mediaType: "application/vnd.oci.image.manifest.v1+json" });
+    manifests.set(`${host}/${repository}@${tag}`, { body, mediaType: "application/vnd.oci.image.manifest.v1+json" });
+    return digest;
+  }
+
+  return { handler, manifests, blobs, requests, pushImage };
+}
+
+describe("OciImageCopier", () => {
+  let originalFetch: typeof fetch;
+  let registries: ReturnType<typeof fakeRegistries>;
+  let copier: OciImageCopier;
+
+  beforeEach(() => {
+    originalFetch = globalThis.fetch;
+    registries = fakeRegistries();
+    globalThis.fetch = registries.handler as unknown as typeof fetch;
+    copier = new OciImageCopier(new OciRegistryClient({ credentials: new Map() }), { chunkSizeBytes: 8 });
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("should upload blobs and push the manifest by digest and tag", async () => {
+    const digest = registries.pushImage("source.io", "team/app", "v1", ["layer-one", "tiny"]);
+
+    const stats = await copier.copy(
+      parseImageReference("source.io/team/app:v1"),
+      parseImageReference("target.io/mirror/app:v1")
+    );
+
+    expect(stats.blobs).toEqual({ exists: 0, mounted: 0, uploaded: 3 });
+    expect(registries.manifests.has(`target.io/mirror/app@${digest}`)).toBe(true);
+    expect(registries.manifests.get("target.io/mirror/app@v1")?.body).toBe(
+      registries.manifests.get(`source.io/team/app@${digest}`)?.body
+    );
+    // "layer-one" is larger than a chunk and goes up in PATCH requests
+    expect(registries.requests.some((r) => r.startsWith("PATCH target.io"))).toBe(true);
+  });
+
+  test("should skip blobs the target already has", async () => {
+    registries.pushImage("source.io", "team/app", "v1", ["base", "app-v1"]);
+    registries.pushImage("source.io", "team/app", "v2", ["base", "app-v2"]);
+    await copier.copy(parseImageReference("source.io/team/app:v1"), parseImageReference("target.io/mirror/app:v1"));
+
+    const stats = await copier.copy(
+      parseImageReference("source.io/team/app:v2"),
+      parseImageReference("target.io/mirror/app:v2")
+    );
+
+    // The config (same layer count) and base layer are shared, only the app layer is new
+    expect(stats.blobs).toEqual({ exists: 2, mounted: 0, uploaded: 1 });
+  });
+
+  test("should mount blobs from another repository of the target registry", async () => {
+    registries.pushImage("source.io", "team/app", "v1", ["shared-layer"]);
+    registries.pushImage("source.io", "team/worker", "v1", ["shared-layer"]);
+    await copier.copy(parseImageReference("source.io/team/app:v1"), parseImageReference("target.io/mirror/app:v1"));
+
+    const stats = await copier.copy(
+      parseImageReference("source.io/team/worker:v1"),
+      parseImageReference("target.io/mirror/worker:v1")
+    );
+
+    expect(stats.blobs.mounted).toBe(2);
+    expect(stats.bytesUploaded).toBe(0);
+  });
+
+  test("should copy every manifest of an index", async () => {
+    const amd64 = registries.pushImage("source.io", "team/app", "amd64", ["amd64-layer"]);
+    const arm64 = registries.pushImage("source.io", "team/app", "arm64", ["arm64-layer"]);
+    const index = JSON.stringify({
+      schemaVersion: 2,
+      mediaType: "application/vnd.oci.image.index.v1+json",
+      manifests: [amd64, arm64].map((digest) => ({
+        mediaType: "application/vnd.oci.image.manifest.v1+json",
+        digest,
+        size: 0,
+      })),
+    });
+    registries.manifests.set("source.io/team/app@v1", { body: index, mediaType: "application/vnd.oci.image.index.v1+json" });
+
+    const stats = await copier.copy(
+      parseImageReference("source.io/team/app:v1"),
+      parseImageReference("target.io/mirror/app:v1")
+    );
+
+    expect(stats.manifests).toBe(3);
+    expect(registries.manifests.has(`target.io/mirror/app@${amd64}`)).toBe(true);
+    expect(registries.manifests.has(`target.io/mirror/app@${arm64}`)).toBe(true);
+    expect(registries.manifests.get("target.io/mirror/app@v1")?.body).toBe(index);
+  });
+
+  test("should fail when the source image does not exist", async () => {
+    await expect(
+      copier.copy(parseImageReference("source.io/team/missing:v1"), parseImageReference("target.io/mirror/missing:v1"))
+    ).rejects.toThrow("404");
+  });
+});
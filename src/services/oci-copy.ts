@@ -0,0 +1,355 @@
+import type { ImageReference } from "../types";
+import { OciRegistryClient, MANIFEST_ACCEPT, describeFailure } from "./oci-client";
+import { metrics, METRICS } from "./metrics";
+import { logger } from "../utils/logger";
+
+const INDEX_MEDIA_TYPES = [
+  "application/vnd.oci.image.index.v1+json",
+  "application/vnd.docker.distribution.manifest.list.v2+json",
+];
+
+const IMAGE_MEDIA_TYPES = [
+  "application/vnd.oci.image.manifest.v1+json",
+  "application/vnd.docker.distribution.manifest.v2+json",
+];
+
+interface Descriptor {
+  mediaType?: string;
+  digest: string;
+  size: number;
+}
+
+interface ManifestDocument {
+  mediaType?: string;
+  config?: Descriptor;
+  layers?: Descriptor[];
+  manifests?: Descriptor[];
+}
+
+interface FetchedManifest {
+  bytes: Uint8Array;
+  mediaType: string;
+  digest: string;
+  document: ManifestDocument;
+}
+
+/**
+ * How a blob ended up in the target repository
+ */
+export type BlobCopyResult = "exists" | "mounted" | "uploaded";
+
+/**
+ * Totals of a finished copy
+ */
+export interface CopyStats {
+  manifests: number;
+  blobs: Record<BlobCopyResult, number>;
+  bytesUploaded: number;
+}
+
+export interface OciCopyOptions {
+  // Blobs larger than this are uploaded in chunks, smaller ones in a single request
+  chunkSizeBytes?: number;
+  // Remembered blob locations in target registries, used as cross-repository mount sources
+  maxKnownBlobs?: number;
+}
+
+/**
+ * In-process replacement for skopeo copy --all
+ * Walks image indexes and manifests, skips blobs the target already has, tries
+ * a cross-repository mount from another repository of the target registry and
+ * streams the remaining blobs from the source. Manifests are pushed by digest;
+ * the top-level manifest is tagged when the target reference has a tag.
+ */
+export class OciImageCopier {
+  private chunkSizeBytes: number;
+  private maxKnownBlobs: number;
+  // "registry|digest" -> repository known to contain the blob, oldest first
+  private knownBlobs = new Map<string, string>();
+
+  constructor(private client: OciRegistryClient, options: OciCopyOptions = {}) {
+    this.chunkSizeBytes = options.chunkSizeBytes ?? 16 * 1024 * 1024;
+    this.maxKnownBlobs = options.maxKnownBlobs ?? 10000;
+  }
+
+  /**
+   * Copy an image with all its platforms from source to target
+   */
+  async copy(source: ImageReference, target: ImageReference, signal?: AbortSignal): Promise<CopyStats> {
+    const stats: CopyStats = { manifests: 0, blobs: { exists: 0, mounted: 0, uploaded: 0 }, bytesUploaded: 0 };
+    const reference = source.digest || source.tag || "latest";
+
+    const manifest = await this.copyManifest(source, reference, target, stats, signal);
+
+    // Tag the copy unless it is addressed by digest only
+    if (!target.digest) {
+      await this.pushManifest(target, target.tag || "latest", manifest, signal);
+    }
+
+    logger.debug("Copied image", { source: source.fullImage, target: target.fullImage, ...stats.blobs, bytesUploaded: stats.bytesUploaded });
+    return stats;
+  }
+
+  /**
+   * Copy a manifest and everything it references
+   */
+  private async copyManifest(
+    source: ImageReference,
+    reference: string,
+    target: ImageReference,
+    stats: CopyStats,
+    signal?: AbortSignal
+  ): Promise<FetchedManifest> {
+    const manifest = await this.fetchManifest(source, reference, signal);
+
+    if (INDEX_MEDIA_TYPES.includes(manifest.mediaType)) {
+      for (const child of manifest.document.manifests || []) {
+        await this.copyManifest(source, child.digest, target, stats, signal);
+      }
+    } else if (IMAGE_MEDIA_TYPES.includes(manifest.mediaType)) {
+      const blobs = [manifest.document.config, ...(manifest.document.layers || [])].filter(Boolean) as Descriptor[];
+      for (const blob of blobs) {
+        const result = await this.copyBlob(source, target, blob, stats, signal);
+        stats.blobs[result]++;
+        metrics.incrementCounter(METRICS.IMAGE_COPY_BLOBS_TOTAL, { target_registry: target.registry, result });
+      }
+    } else {
+      throw new Error(`Unsupported manifest type "${manifest.mediaType}" for ${source.fullImage}`);
+    }
+
+    await this.pushManifest(target, manifest.digest, manifest, signal);
+    stats.manifests++;
+    return manifest;
+  }
+
+  private async fetchManifest(image: ImageReference, reference: string, signal?: AbortSignal): Promise<FetchedManifest> {
+    const response = await this.client.send(
+      image.registry,
+      [`repository:${image.repository}:pull`],
+      `/v2/${image.repository}/manifests/${reference}`,
+      { headers: { Accept: MANIFEST_ACCEPT } },
+      signal
+    );
+    if (!response.ok) {
+      throw new Error(describeFailure(image.registry, response, `manifest request for ${image.repository}:${reference}`));
+    }
+
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    const document = JSON.parse(new TextDecoder().decode(bytes)) as ManifestDocument;
+    const mediaType = document.mediaType || response.headers.get("content-type")?.split(";")[0] || "";
+    const digest = `sha256:${new Bun.CryptoHasher("sha256").update(bytes).digest("hex")}`;
+
+    if (reference.startsWith("sha256:") && reference !== digest) {
+      throw new Error(`Manifest digest mismatch for ${image.repository}@${reference}: got ${digest}`);
+    }
+    return { bytes, mediaType, digest, document };
+  }
+
+  private async pushManifest(
+    target: ImageReference,
+    reference: string,
+    manifest: FetchedManifest,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const response = await this.client.send(
+      target.registry,
+      [pushScope(target.repository)],
+      `/v2/${target.repository}/manifests/${reference}`,
+      { method: "PUT", headers: { "Content-Type": manifest.mediaType }, body: manifest.bytes },
+      signal
+    );
+    if (!response.ok) {
+      throw new Error(describeFailure(target.registry, response, `manifest push to ${target.repository}:${reference}`));
+    }
+  }
+
+  /**
+   * Make a blob available in the target repository as cheaply as possible
+   */
+  private async copyBlob(
+    source: ImageReference,
+    target: ImageReference,
+    blob: Descriptor,
+    stats: CopyStats,
+    signal?: AbortSignal
+  ): Promise<BlobCopyResult> {
+    const repository = target.repository;
+
+    const head = await this.client.send(
+      target.registry,
+      [pushScope(repository)],
+      `/v2/${repository}/blobs/${blob.digest}`,
+      { method: "HEAD" },
+      signal
+    );
+    if (head.ok) {
+      this.rememberBlob(target.registry, blob.digest, repository);
+      return "exists";
+    }
+
+    // Mount from a repository of the target registry known to have the blob
+    const mountFrom = source.registry === target.registry
+      ? source.repository
+      : this.knownBlobs.get(`${target.registry}|${blob.digest}`);
+    const scopes = [pushScope(repository)];
+    let uploadPath = `/v2/${repository}/blobs/uploads/`;
+    if (mountFrom && mountFrom !== repository) {
+      scopes.push(`repository:${mountFrom}:pull`);
+      uploadPath += `?mount=${encodeURIComponent(blob.digest)}&from=${encodeURIComponent(mountFrom)}`;
+    }
+
+    const start = await this.client.send(target.registry, scopes, uploadPath, { method: "POST" }, signal);
+    if (start.status === 201) {
+      this.rememberBlob(target.registry, blob.digest, repository);
+      return "mounted";
+    }
+    if (start.status !== 202) {
+      throw new Error(describeFailure(target.registry, start, `blob upload to ${repository}`));
+    }
+
+    await this.uploadBlob(source, target, blob, uploadLocation(start), stats, signal);
+    this.rememberBlob(target.registry, blob.digest, repository);
+    return "uploaded";
+  }
+
+  /**
+   * Stream a blob from the source into an upload session
+   */
+  private async uploadBlob(
+    source: ImageReference,
+    target: ImageReference,
+    blob: Descriptor,
+    location: string,
+    stats: CopyStats,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const download = await this.client.send(
+      source.registry,
+      [`repository:${source.repository}:pull`],
+      `/v2/${source.repository}/blobs/${blob.digest}`,
+      {},
+      signal
+    );
+    if (!download.ok || !download.body) {
+      throw new Error(describeFailure(source.registry, download, `blob download of ${blob.digest}`));
+    }
+
+    const scopes = [pushScope(target.repository)];
+    const recordProgress = (bytes: number) => {
+      stats.bytesUploaded += bytes;
+      metrics.incrementCounter(METRICS.IMAGE_COPY_BYTES_TOTAL, { target_registry: target.registry }, bytes);
+    };
+
+    let response: Response;
+    if (blob.size <= this.chunkSizeBytes) {
+      // Monolithic upload, streamed straight from the source
+      response = await this.client.send(
+        target.registry,
+        scopes,
+        withDigest(location, blob.digest),
+        {
+          method: "PUT",
+          headers: { "Content-Type": "application/octet-stream", "Content-Length": String(blob.size) },
+          body: download.body,
+        },
+        signal
+      );
+      if (response.ok) recordProgress(blob.size);
+    } else {
+      // Chunked upload, buffering one chunk at a time
+      let offset = 0;
+      for await (const chunk of chunks(download.body, this.chunkSizeBytes)) {
+        const patch = await this.client.send(
+          target.registry,
+          scopes,
+          location,
+          {
+            method: "PATCH",
+            headers: {
+              "Content-Type": "application/octet-stream",
+              "Content-Length": String(chunk.length),
+              "Content-Range": `${offset}-${offset + chunk.length - 1}`,
+            },
+            body: chunk,
+          },
+          signal
+        );
+        if (patch.status !== 202) {
+          throw new Error(describeFailure(target.registry, patch, `blob chunk upload of ${blob.digest}`));
+        }
+        offset += chunk.length;
+        location = uploadLocation(patch, location);
+        recordProgress(chunk.length);
+        logger.debug("Uploaded blob chunk", { digest: blob.digest, uploaded: offset, size: blob.size });
+      }
+
+      response = await this.client.send(
+        target.registry,
+        scopes,
+        withDigest(location, blob.digest),
+        { method: "PUT", headers: { "Content-Length": "0" } },
+        signal
+      );
+    }
+
+    if (response.status !== 201) {
+      throw new Error(describeFailure(target.registry, response, `blob upload of ${blob.digest}`));
+    }
+  }
+
+  private rememberBlob(registry: string, digest: string, repository: string): void {
+    const key = `${registry}|${digest}`;
+    this.knownBlobs.delete(key);
+    this.knownBlobs.set(key, repository);
+    while (this.knownBlobs.size > this.maxKnownBlobs) {
+      this.knownBlobs.delete(this.knownBlobs.keys().next().value!);
+    }
+  }
+}
+
+function pushScope(repository: string): string {
+  return `repository:${repository}:pull,push`;
+}
+
+/**
+ * Upload session URL from a response, relative locations resolved against the request
+ */
+function uploadLocation(response: Response, fallback?: string): string {
+  const location = response.headers.get("location") || fallback;
+  if (!location) {
+    throw new Error("Registry did not return an upload location");
+  }
+  return response.url ? new URL(location, response.url).toString() : location;
+}
+
+function withDigest(location: string, digest: string): string {
+  const separator = location.includes("?") ? "&" : "?";
+  return `${location}${separator}digest=${encodeURIComponent(digest)}`;
+}
+
+/**
+ * Re-chunk a byte stream into pieces of exactly size bytes (the last may be shorter)
+ */
+async function* chunks(stream: ReadableStream<Uint8Array>, size: number): AsyncGenerator<Uint8Array> {
+  let buffer = new Uint8Array(size);
+  let filled = 0;
+
+  for await (const part of stream) {
+    let offset = 0;
+    while (offset < part.length) {
+      const take = Math.min(size - filled, part.length - offset);
+      buffer.set(part.subarray(offset, offset + take), filled);
+      filled += take;
+      offset += take;
+      if (filled === size) {
+        yield buffer;
+        buffer = new Uint8Array(size);
+        filled = 0;
+      }
+    }
+  }
+
+  if (filled > 0) {
+    yield buffer.subarray(0, filled);
+  }
+}
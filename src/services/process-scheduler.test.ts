@@ -0,0 +1,87 @@
+import { describe, test, expect } from "bun:test";
+import { ProcessScheduler } from "./process-scheduler";
+import { metrics, METRICS } from "./metrics";
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => (resolve = r));
+  return { promise, resolve };
+}
+
+describe("ProcessScheduler", () => {
+  test("should limit the number of running processes", async () => {
+    const scheduler = new ProcessScheduler(2, 10);
+    const gates = [deferred(), deferred(), deferred()];
+    let started = 0;
+
+    const runs = gates.map((gate, i) =>
+      scheduler.run("inspect", [`r${i}`], async () => {
+        started++;
+        await gate.promise;
+      })
+    );
+
+    await Bun.sleep(0);
+    expect(started).toBe(2);
+    expect(scheduler.queueDepth).toBe(1);
+
+    gates[0].resolve();
+    await Bun.sleep(0);
+    expect(started).toBe(3);
+
+    gates[1].resolve();
+    gates[2].resolve();
+    await Promise.all(runs);
+    expect(scheduler.active).toBe(0);
+  });
+
+  test("should not let a busy registry block other registries", async () => {
+    const scheduler = new ProcessScheduler(10, 1);
+    const busy = deferred();
+    const order: string[] = [];
+
+    const first = scheduler.run("copy", ["docker.io", "myregistry.io"], () => busy.promise);
+    const blocked = scheduler.run("inspect", ["docker.io"], async () => {
+      order.push("docker.io");
+    });
+    const other = scheduler.run("inspect", ["ghcr.io"], async () => {
+      order.push("ghcr.io");
+    });
+
+    await other;
+    expect(order).toEqual(["ghcr.io"]);
+
+    busy.resolve();
+    await Promise.all([first, blocked]);
+    expect(order).toEqual(["ghcr.io", "docker.io"]);
+  });
+
+  test("should leave the queue when the signal aborts", async () => {
+    const scheduler = new ProcessScheduler(1, 1);
+    const busy = deferred();
+    const first = scheduler.run("inspect", ["docker.io"], () => busy.promise);
+
+    const controller = new AbortController();
+    const queued = scheduler.run("inspect", ["docker.io"], async () => "ran", controller.signal);
+    controller.abort(new Error("deadline"));
+
+    await expect(queued).rejects.toThrow("deadline");
+    expect(scheduler.queueDepth).toBe(0);
+
+    busy.resolve();
+    await first;
+  });
+
+  test("should export queue depth and wait time metrics", async () => {
+    const scheduler = new ProcessScheduler(1, 1);
+    await scheduler.run("copy", ["docker.io"], async () => {});
+
+    const output = metrics.generatePrometheusMetrics();
+    expect(output).toContain(METRICS.REGISTRY_OPERATION_QUEUE_DEPTH);
+    expect(output).toContain(`${METRICS.REGISTRY_OPERATION_QUEUE_WAIT}_count{operation="copy"}`);
+  });
+
+  test("should reject invalid limits", () => {
+    expect(() => new ProcessScheduler(0, 1)).toThrow();
+  });
+});
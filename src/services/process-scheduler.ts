@@ -0,0 +1,128 @@
+import { metrics, METRICS } from "./metrics";
+
+interface Waiter {
+  operation: string;
+  registries: string[];
+  enqueuedAt: number;
+  start: () => void;
+}
+
+/**
+ * Bounds the number of concurrent skopeo processes
+ * Every process takes one global slot plus one slot per registry it talks to
+ * (the source and target of a copy). Waiters start in arrival order, but a
+ * waiter blocked on a busy registry does not hold up work for other registries.
+ */
+export class ProcessScheduler {
+  private running = 0;
+  private perRegistry = new Map<string, number>();
+  private waiting: Waiter[] = [];
+
+  constructor(
+    private concurrency: number = 8,
+    private registryConcurrency: number = 4
+  ) {
+    if (!(concurrency > 0) || !(registryConcurrency > 0)) {
+      throw new Error(`Invalid process concurrency: ${concurrency} total, ${registryConcurrency} per registry`);
+    }
+  }
+
+  /**
+   * Run fn once slots for all registries are free
+   * Aborting the signal while waiting gives up the place in the queue and
+   * rejects with the signal's reason
+   */
+  async run<T>(operation: string, registries: string[], fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    signal?.throwIfAborted();
+    const unique = [...new Set(registries)];
+
+    // Don't overtake earlier waiters for the same registry
+    const queuedBehind = this.waiting.some((w) => w.registries.some((r) => unique.includes(r)));
+    if (queuedBehind || !this.hasCapacity(unique)) {
+      await this.wait(operation, unique, signal);
+    } else {
+      this.acquire(operation, unique, Date.now());
+    }
+
+    try {
+      return await fn();
+    } finally {
+      this.release(unique);
+    }
+  }
+
+  /**
+   * Number of processes waiting for a slot
+   */
+  get queueDepth(): number {
+    return this.waiting.length;
+  }
+
+  /**
+   * Number of processes holding a slot
+   */
+  get active(): number {
+    return this.running;
+  }
+
+  private wait(operation: string, registries: string[], signal?: AbortSignal): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        this.waiting = this.waiting.filter((w) => w !== waiter);
+        this.updateGauges();
+        reject(signal!.reason);
+      };
+      const waiter: Waiter = {
+        operation,
+        registries,
+        enqueuedAt: Date.now(),
+        start: () => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve();
+        },
+      };
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.waiting.push(waiter);
+      this.updateGauges();
+    });
+  }
+
+  private hasCapacity(registries: string[]): boolean {
+    return this.running < this.concurrency &&
+      registries.every((r) => (this.perRegistry.get(r) ?? 0) < this.registryConcurrency);
+  }
+
+  private acquire(operation: string, registries: string[], enqueuedAt: number): void {
+    this.running++;
+    for (const registry of registries) {
+      this.perRegistry.set(registry, (this.perRegistry.get(registry) ?? 0) + 1);
+    }
+    metrics.observeHistogram(METRICS.REGISTRY_OPERATION_QUEUE_WAIT, (Date.now() - enqueuedAt) / 1000, { operation });
+    this.updateGauges();
+  }
+
+  private release(registries: string[]): void {
+    this.running--;
+    for (const registry of registries) {
+      const count = (this.perRegistry.get(registry) ?? 1) - 1;
+      if (count > 0) this.perRegistry.set(registry, count);
+      else this.perRegistry.delete(registry);
+    }
+
+    // Start every waiter that fits now, oldest first
+    for (const waiter of [...this.waiting]) {
+      if (this.running >= this.concurrency) break;
+      if (!this.hasCapacity(waiter.registries)) continue;
+      this.waiting = this.waiting.filter((w) => w !== waiter);
+      this.acquire(waiter.operation, waiter.registries, waiter.enqueuedAt);
+      waiter.start();
+    }
+    this.updateGauges();
+  }
+
+  private updateGauges(): void {
+    metrics.setGauge(METRICS.REGISTRY_OPERATION_QUEUE_DEPTH, this.waiting.length);
+    metrics.setGauge(METRICS.REGISTRY_OPERATIONS_RUNNING, this.running);
+  }
+}
@@ -0,0 +1,71 @@
+import type { ImageReference, RegistryAuthConfig } from "../types";
+import { SkopeoBackend } from "./skopeo-backend";
+import { NativeBackend } from "./native-backend";
+
+/**
+ * Timeout of connectivity tests, independent of the operation timeout
+ */
+export const PING_TIMEOUT_MS = 10000;
+
+/**
+ * Registry operations the registry client is built on
+ * Failures are thrown as errors whose messages registry-errors can classify;
+ * a missing image or repository is an answer, not a failure. Scheduling,
+ * retries, caching and circuit breaking are left to the registry client.
+ */
+export interface RegistryBackend {
+  // Name reported in logs
+  readonly name: string;
+
+  /**
+   * Resolve an image to its manifest digest
+   * Returns null if the image does not exist
+   */
+  inspect(image: ImageReference, signal?: AbortSignal): Promise<string | null>;
+
+  /**
+   * Copy an image with all its platforms
+   */
+  copy(source: ImageReference, target: ImageReference, signal?: AbortSignal): Promise<void>;
+
+  /**
+   * Resolve once the registry answers, whatever the answer
+   * Throws when the registry cannot be reached
+   */
+  ping(registry: string, signal?: AbortSignal): Promise<void>;
+
+  /**
+   * List the tags of an image's repository
+   * Returns an empty list if the repository does not exist
+   */
+  listTags(image: ImageReference, signal?: AbortSignal): Promise<string[]>;
+
+  /**
+   * Drop cached registry tokens, for backends that keep any
+   */
+  clearTokenCache?(): void;
+}
+
+/**
+ * Whether operations fork skopeo or use the in-process OCI client
+ */
+export type ClientImplementation = "skopeo" | "native";
+
+/**
+ * Create the backend for a configured client implementation
+ */
+export function createRegistryBackend(
+  implementation: ClientImplementation,
+  authConfig: RegistryAuthConfig,
+  insecureRegistries: string[] = [],
+  timeout: number = 240000
+): RegistryBackend {
+  switch (implementation) {
+    case "skopeo":
+      return new SkopeoBackend(authConfig, insecureRegistries, timeout);
+    case "native":
+      return new NativeBackend(authConfig, insecureRegistries, timeout);
+    default:
+      throw new Error(`Invalid registry client "${implementation}", expected "skopeo" or "native"`);
+  }
+}
@@ -1,5 +1,8 @@
 import { describe, test, expect, mock, beforeEach, spyOn } from "bun:test";
-import { RegistryClient } from "./registry-client";
+import { RegistryClient, DEADLINE_EXCEEDED_ERROR } from "./registry-client";
+import { TargetMappings } from "./target-mappings";
+import { ImageCheckCache } from "./image-cache";
+import { InMemoryRegistryBackend } from "./memory-backend";
 import type { RegistryAuthConfig } from "../types";
 
 // Mock Bun.spawn for all tests
@@ -61,6 +64,97 @@ describe("RegistryClient", () => {
     });
   });
 
+  describe("getTargetImageReference", () => {
+    test("should return undefined when no target registry set", () => {
+      const client = new RegistryClient(authConfig);
+      expect(client.getTargetImageReference("nginx:latest")).toBeUndefined();
+    });
+
+    test("should build tag reference in target registry", () => {
+      const client = new RegistryClient(authConfig, "myregistry.io");
+      expect(client.getTargetImageReference("nginx:1.25")).toBe("myregistry.io/library/nginx:1.25");
+      expect(client.getTargetImageReference("ghcr.io/org/app")).toBe("myregistry.io/org/app:latest");
+    });
+
+    test("should build digest reference in target registry", () => {
+      const client = new RegistryClient(authConfig, "myregistry.io");
+      expect(client.getTargetImageReference("nginx@sha256:abc123")).toBe("myregistry.io/library/nginx@sha256:abc123");
+    });
+
+    test("should apply the configured target layout", () => {
+      const client = new RegistryClient(authConfig, "myregistry.io", undefined, [], { targetLayout: "registry" });
+      expect(client.getTargetImageReference("nginx:1.25")).toBe("myregistry.io/docker.io/library/nginx:1.25");
+      expect(client.getTargetImageReference("quay.io/library/nginx:1.25")).toBe("myregistry.io/quay.io/library/nginx:1.25");
+    });
+
+    test("should keep images already in the target registry", () => {
+      const client = new RegistryClient(authConfig, "myregistry.io", undefined, [], { targetLayout: "registry" });
+      expect(client.getTargetImageReference("myregistry.io/docker.io/library/nginx:1.25")).toBe(
+        "myregistry.io/docker.io/library/nginx:1.25"
+      );
+    });
+
+    test("should reject invalid target layouts", () => {
+      expect(() => new RegistryClient(authConfig, "myregistry.io", undefined, [], { targetLayout: "{bogus}" })).toThrow();
+    });
+
+    test("should let the first matching mapping rule decide host and path", () => {
+      const targetMappings = new TargetMappings([
+        { match: "docker.io/bitnami/*", target: "mirror.acr.io/thirdparty/bitnami/*" },
+      ]);
+      const client = new RegistryClient(authConfig, "myregistry.io", undefined, [], { targetMappings });
+
+      expect(client.getTargetImageReference("bitnami/redis:7")).toBe("mirror.acr.io/thirdparty/bitnami/redis:7");
+      expect(client.getTargetImageReference("nginx:1.25")).toBe("myregistry.io/library/nginx:1.25");
+    });
+
+    test("should only replicate mapped images without a target registry", () => {
+      const targetMappings = new TargetMappings([{ match: "gcr.io/distroless/*", target: "mirror.acr.io/base/*" }]);
+      const client = new RegistryClient(authConfig, undefined, undefined, [], { targetMappings });
+
+      expect(client.isReplicationEnabled()).toBe(true);
+      expect(client.getTargetImageReference("gcr.io/distroless/static@sha256:abc")).toBe("mirror.acr.io/base/static@sha256:abc");
+      expect(client.getTargetImageReference("nginx:1.25")).toBeUndefined();
+    });
+
+    test("should recognize images served from replication targets", () => {
+      const targetMappings = new TargetMappings([{ match: "gcr.io/distroless/*", target: "mirror.acr.io/base/*" }]);
+      const client = new RegistryClient(authConfig, "myregistry.io", undefined, [], { targetMappings });
+
+      expect(client.isReplicationTarget("myregistry.io/library/nginx:1.25")).toBe(true);
+      expect(client.isReplicationTarget("mirror.acr.io/base/static:nonroot")).toBe(true);
+      expect(client.isReplicationTarget("gcr.io/distroless/static:nonroot")).toBe(false);
+    });
+
+    test("should keep images already at a mapping target when a target registry is set", () => {
+      const targetMappings = new TargetMappings([{ match: "gcr.io/distroless/*", target: "mirror.acr.io/base/*" }]);
+      const client = new RegistryClient(authConfig, "myregistry.io", undefined, [], { targetMappings });
+
+      expect(client.getTargetImageReference("gcr.io/distroless/static:nonroot")).toBe("mirror.acr.io/base/static:nonroot");
+      expect(client.getTargetImageReference("mirror.acr.io/base/static:nonroot")).toBe("mirror.acr.io/base/static:nonroot");
+    });
+
+    test("should prefer explicit target registry", () => {
+      const client = new RegistryClient(authConfig, "myregistry.io");
+      expect(client.getTargetImageReference("nginx:1.25", "other.io")).toBe("other.io/library/nginx:1.25");
+    });
+  });
+
+  describe("enqueueClone", () => {
+    test("should clone in the background and report job status", async () => {
+      const client = new RegistryClient(authConfig, "myregistry.io");
+      client.cloneImage = mock(() => Promise.resolve({ success: true }));
+
+      const job = client.enqueueClone("nginx:latest", "myregistry.io");
+      expect(job.targetImage).toBe("myregistry.io/library/nginx:latest");
+
+      await client.waitForReplications();
+
+      expect(client.cloneImage).toHaveBeenCalledWith("nginx:latest", "myregistry.io");
+      expect(client.getReplicationJobs()[0].state).toBe("succeeded");
+    });
+  });
+
   describe("clearTokenCache", () => {
     test("should clear token cache without errors", () => {
       const client = new RegistryClient(authConfig);
@@ -138,6 +232,22 @@ describe("RegistryClient - Skopeo Integration", () => {
       Bun.spawn = originalSpawn;
     });
 
+    test("should return resolved digest from skopeo inspect", async () => {
+      const client = new RegistryClient(authConfig);
+      const digest = "sha256:" + "b".repeat(64);
+
+      Bun.spawn = mock(() => {
+        return mockSpawn(0, JSON.stringify({ Name: "docker.io/library/nginx", Digest: digest }));
+      }) as any;
+
+      const result = await client.checkImageExists("nginx:latest");
+
+      expect(result.exists).toBe(true);
+      expect(result.digest).toBe(digest);
+
+      Bun.spawn = originalSpawn;
+    });
+
     test("should handle image not found (404)", async () => {
       const client = new RegistryClient(authConfig);
       
@@ -233,6 +343,22 @@ describe("RegistryClient - Skopeo Integration", () => {
       Bun.spawn = originalSpawn;
     });
 
+    test("should clone into the configured target layout", async () => {
+      const client = new RegistryClient(authConfig, undefined, undefined, [], { targetLayout: "registry" });
+      let copyArgs: string[] = [];
+
+      Bun.spawn = mock((args: any) => {
+        copyArgs = args;
+        return mockSpawn(0);
+      }) as any;
+
+      await client.cloneImage("quay.io/library/nginx:1.25", "myregistry.io");
+
+      expect(copyArgs).toContain("docker://myregistry.io/quay.io/library/nginx:1.25");
+
+      Bun.spawn = originalSpawn;
+    });
+
     test("should pass source and destination credentials", async () => {
       const authConfigWithTarget = {
         credentials: new Map([
@@ -288,6 +414,64 @@ describe("RegistryClient - Skopeo Integration", () => {
     });
   });
 
+  describe("admission deadline", () => {
+    const hangingSpawn = () => ({
+      ...mockSpawn(0),
+      exited: new Promise<number>(() => {}),
+    });
+
+    test("should kill checks when the signal aborts", async () => {
+      const client = new RegistryClient(authConfig);
+      const proc = hangingSpawn();
+      Bun.spawn = mock(() => proc) as any;
+
+      const controller = new AbortController();
+      const pending = client.checkImages(["nginx:latest"], controller.signal);
+      controller.abort();
+      const [result] = await pending;
+
+      expect(result.exists).toBe(false);
+      expect(result.error).toBe(DEADLINE_EXCEEDED_ERROR);
+      expect(proc.kill).toHaveBeenCalled();
+
+      Bun.spawn = originalSpawn;
+    });
+
+    test("should not start clones after the deadline", async () => {
+      const client = new RegistryClient(authConfig, "myregistry.io");
+      Bun.spawn = mock(() => mockSpawn(0)) as any;
+
+      const result = await client.cloneImage("nginx:latest", undefined, AbortSignal.abort());
+
+      expect(result).toEqual({ success: false, error: DEADLINE_EXCEEDED_ERROR });
+      expect(Bun.spawn).not.toHaveBeenCalled();
+
+      Bun.spawn = originalSpawn;
+    });
+
+    test("should finish clones whose deadline expired", async () => {
+      const client = new RegistryClient(authConfig, "myregistry.io");
+      let exit!: (code: number) => void;
+      const proc = { ...mockSpawn(0), exited: new Promise<number>((resolve) => (exit = resolve)) };
+      Bun.spawn = mock(() => proc) as any;
+
+      const controller = new AbortController();
+      const pending = client.cloneImage("nginx:latest", undefined, controller.signal);
+      controller.abort();
+
+      expect(await pending).toEqual({ success: false, error: DEADLINE_EXCEEDED_ERROR });
+      expect(proc.kill).not.toHaveBeenCalled();
+
+      // A retry joins the copy still running instead of starting over
+      const retried = client.cloneImage("nginx:latest");
+      exit(0);
+      expect((await retried).success).toBe(true);
+      expect(Bun.spawn).toHaveBeenCalledTimes(1);
+
+      Bun.spawn = originalSpawn;
+    });
+  });
+
   describe("testRegistryConnectivity", () => {
     test("should test connectivity with skopeo", async () => {
       const client = new RegistryClient(authConfig);
@@ -381,4 +565,365 @@ describe("RegistryClient - Skopeo Integration", () => {
       Bun.spawn = originalSpawn;
     });
   });
+  describe("image cache", () => {
+    test("should serve repeated checks from the cache", async () => {
+      const client = new RegistryClient(authConfig, undefined, undefined, [], { imageCache: new ImageCheckCache() });
+      const spawn = mock(() => mockSpawn(0, JSON.stringify({ Digest: "sha256:abc" })));
+      Bun.spawn = spawn as any;
+
+      const first = await client.checkImageExists("nginx:1.25");
+      const second = await client.checkImageExists("docker.io/library/nginx:1.25");
+
+      expect(spawn).toHaveBeenCalledTimes(1);
+      expect(first.cached).toBeUndefined();
+      expect(second).toEqual({ ...first, image: "docker.io/library/nginx:1.25", cached: true });
+
+      Bun.spawn = originalSpawn;
+    });
+
+    test("should not cache checks cancelled by the admission deadline", async () => {
+      const client = new RegistryClient(authConfig, undefined, undefined, [], { imageCache: new ImageCheckCache() });
+      const spawn = mock(() => mockSpawn(0, JSON.stringify({ Digest: "sha256:abc" })));
+      Bun.spawn = spawn as any;
+
+      const expired = await client.checkImageExists("nginx:1.25", AbortSignal.abort());
+      const result = await client.checkImageExists("nginx:1.25");
+
+      expect(expired.error).toBe(DEADLINE_EXCEEDED_ERROR);
+      expect(result.exists).toBe(true);
+      expect(spawn).toHaveBeenCalledTimes(1);
+
+      Bun.spawn = originalSpawn;
+    });
+
+    test("should drop the cached target check after a successful clone", async () => {
+      const client = new RegistryClient(authConfig, "myregistry.io", undefined, [], { imageCache: new ImageCheckCache() });
+      Bun.spawn = mock(() => mockSpawn(1, "", "manifest unknown")) as any;
+      expect((await client.checkImageExists("nginx:1.25")).exists).toBe(false);
+
+      Bun.spawn = mock(() => mockSpawn(0)) as any;
+      expect((await client.cloneImage("nginx:1.25")).success).toBe(true);
+
+      const result = await client.checkImageExists("nginx:1.25");
+      expect(result.exists).toBe(true);
+      expect(result.cached).toBeUndefined();
+
+      Bun.spawn = originalSpawn;
+    });
+
+    test("should purge entries by image reference or glob", async () => {
+      const client = new RegistryClient(authConfig, "myregistry.io", undefined, [], { imageCache: new ImageCheckCache() });
+      Bun.spawn = mock(() => mockSpawn(0)) as any;
+      await client.checkImages(["nginx:1.25", "redis:7", "ghcr.io/org/app:v1"]);
+
+      expect(client.purgeImageCache("nginx:1.25")).toBe(1);
+      expect(client.purgeImageCache("myregistry.io/library/*")).toBe(1);
+      expect(client.purgeImageCache()).toBe(1);
+
+      Bun.spawn = originalSpawn;
+    });
+  });
+  describe("coalescing", () => {
+    test("should share one inspect between concurrent checks of an image", async () => {
+      const client = new RegistryClient(authConfig);
+      const spawn = mock(() => mockSpawn(0, JSON.stringify({ Digest: "sha256:abc" })));
+      Bun.spawn = spawn as any;
+
+      const results = await Promise.all([
+        client.checkImageExists("nginx:1.25"),
+        client.checkImageExists("docker.io/library/nginx:1.25"),
+      ]);
+
+      expect(spawn).toHaveBeenCalledTimes(1);
+      expect(results.map((r) => r.image)).toEqual(["nginx:1.25", "docker.io/library/nginx:1.25"]);
+      expect(results.every((r) => r.digest === "sha256:abc")).toBe(true);
+
+      Bun.spawn = originalSpawn;
+    });
+
+    test("should share one copy between concurrent clones to the same target", async () => {
+      const client = new RegistryClient(authConfig, "myregistry.io");
+      const spawn = mock(() => mockSpawn(0));
+      Bun.spawn = spawn as any;
+
+      const results = await Promise.all(Array.from({ length: 5 }, () => client.cloneImage("nginx:1.25")));
+
+      expect(spawn).toHaveBeenCalledTimes(1);
+      expect(results.every((r) => r.success)).toBe(true);
+
+      Bun.spawn = originalSpawn;
+    });
+
+    test("should keep copying for remaining callers when one deadline expires", async () => {
+      const client = new RegistryClient(authConfig, "myregistry.io");
+      let exit!: (code: number) => void;
+      const proc = { ...mockSpawn(0), exited: new Promise<number>((resolve) => (exit = resolve)) };
+      Bun.spawn = mock(() => proc) as any;
+
+      const controller = new AbortController();
+      const expiring = client.cloneImage("nginx:1.25", undefined, controller.signal);
+      const waiting = client.cloneImage("nginx:1.25");
+      controller.abort();
+
+      expect(await expiring).toEqual({ success: false, error: DEADLINE_EXCEEDED_ERROR });
+      expect(proc.kill).not.toHaveBeenCalled();
+
+      exit(0);
+      expect((await waiting).success).toBe(true);
+
+      Bun.spawn = originalSpawn;
+    });
+  });
+  describe("retries", () => {
+    test("should retry transient inspect failures", async () => {
+      const client = new RegistryClient(authConfig, undefined, undefined, [], { retry: { baseDelayMs: 1 } });
+      let calls = 0;
+      Bun.spawn = mock(() =>
+        ++calls === 1 ? mockSpawn(1, "", "received unexpected HTTP status: 502 Bad Gateway") : mockSpawn(0, "{}")
+      ) as any;
+
+      const result = await client.checkImageExists("nginx:1.25");
+
+      expect(result.exists).toBe(true);
+      expect(calls).toBe(2);
+
+      Bun.spawn = originalSpawn;
+    });
+
+    test("should not retry missing manifests or rejected credentials", async () => {
+      const client = new RegistryClient(authConfig, "myregistry.io", undefined, [], { retry: { baseDelayMs: 1 } });
+      const spawn = mock(() => mockSpawn(1, "", "unauthorized: authentication required"));
+      Bun.spawn = spawn as any;
+
+      const result = await client.cloneImage("nginx:1.25");
+
+      expect(result.success).toBe(false);
+      expect(spawn).toHaveBeenCalledTimes(1);
+
+      Bun.spawn = originalSpawn;
+    });
+
+    test("should give up clones after the configured attempts", async () => {
+      const client = new RegistryClient(authConfig, "myregistry.io", undefined, [], { retry: { attempts: 2, baseDelayMs: 1 } });
+      const spawn = mock(() => mockSpawn(1, "", "read: connection reset by peer"));
+      Bun.spawn = spawn as any;
+
+      const result = await client.cloneImage("nginx:1.25");
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("connection reset");
+      expect(spawn).toHaveBeenCalledTimes(2);
+
+      Bun.spawn = originalSpawn;
+    });
+  });
+  describe("circuit breaker", () => {
+    test("should short-circuit checks once a registry keeps failing", async () => {
+      const client = new RegistryClient(authConfig, undefined, undefined, [], {
+        retry: { attempts: 1 },
+        circuitBreaker: { failureThreshold: 2 },
+      });
+      const spawn = mock(() => mockSpawn(1, "", "dial tcp: connect: connection refused"));
+      Bun.spawn = spawn as any;
+
+      await client.checkImageExists("nginx:1.25");
+      await client.checkImageExists("redis:7");
+      const result = await client.checkImageExists("busybox:1.36");
+
+      expect(spawn).toHaveBeenCalledTimes(2);
+      expect(result.circuitOpen).toBe(true);
+      expect(result.exists).toBe(false);
+
+      Bun.spawn = originalSpawn;
+    });
+
+    test("should not count missing images as registry failures", async () => {
+      const client = new RegistryClient(authConfig, undefined, undefined, [], { circuitBreaker: { failureThreshold: 1 } });
+      const spawn = mock(() => mockSpawn(1, "", "manifest unknown"));
+      Bun.spawn = spawn as any;
+
+      await client.checkImageExists("nginx:bogus");
+      const result = await client.checkImageExists("redis:bogus");
+
+      expect(spawn).toHaveBeenCalledTimes(2);
+      expect(result.circuitOpen).toBeUndefined();
+
+      Bun.spawn = originalSpawn;
+    });
+
+    test("should fail clones to a registry with an open circuit without copying", async () => {
+      const client = new RegistryClient(authConfig, "myregistry.io", undefined, [], {
+        retry: { attempts: 1 },
+        circuitBreaker: { failureThreshold: 1 },
+      });
+      Bun.spawn = mock(() => mockSpawn(1, "", "503 Service Unavailable")) as any;
+      await client.checkImageExists("nginx:1.25");
+
+      const spawn = mock(() => mockSpawn(0));
+      Bun.spawn = spawn as any;
+      const result = await client.cloneImage("nginx:1.25");
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("Circuit breaker open for myregistry.io");
+      expect(result.openRegistry).toBe("myregistry.io");
+      expect(spawn).not.toHaveBeenCalled();
+
+      Bun.spawn = originalSpawn;
+    });
+
+    test("should open the circuit of a source registry that fails copies", async () => {
+      const client = new RegistryClient(authConfig, "myregistry.io", undefined, [], {
+        retry: { attempts: 1 },
+        circuitBreaker: { failureThreshold: 1 },
+      });
+      Bun.spawn = mock(() =>
+        mockSpawn(1, "", 'pinging container registry ghcr.io: Get "https://ghcr.io/v2/": dial tcp: connect: connection refused')
+      ) as any;
+      await client.cloneImage("ghcr.io/org/app:v1");
+
+      const spawn = mock(() => mockSpawn(0, JSON.stringify({ Digest: "sha256:abc" })));
+      Bun.spawn = spawn as any;
+      const clone = await client.cloneImage("ghcr.io/org/other:v1");
+      const check = await client.checkImageExists("ghcr.io/org/other:v1");
+
+      expect(clone.openRegistry).toBe("ghcr.io");
+      expect(check.circuitOpen).toBeUndefined();
+      expect(spawn).toHaveBeenCalledTimes(1);
+
+      Bun.spawn = originalSpawn;
+    });
+
+    test("should not count copy timeouts against the target registry", async () => {
+      const client = new RegistryClient(authConfig, "myregistry.io", 10, [], {
+        retry: { attempts: 1 },
+        circuitBreaker: { failureThreshold: 1 },
+      });
+      Bun.spawn = mock(() => ({ ...mockSpawn(0), exited: new Promise<number>(() => {}) })) as any;
+      const timedOut = await client.cloneImage("ghcr.io/org/app:v1");
+
+      const spawn = mock(() => mockSpawn(0));
+      Bun.spawn = spawn as any;
+      const result = await client.cloneImage("quay.io/org/app:v1");
+
+      expect(timedOut.error).toBe("Request to myregistry.io timed out after 10ms");
+      expect(result.success).toBe(true);
+      expect(spawn).toHaveBeenCalled();
+
+      Bun.spawn = originalSpawn;
+    });
+
+    test("should not count failed copies of missing images against either registry", async () => {
+      const client = new RegistryClient(authConfig, "myregistry.io", undefined, [], {
+        retry: { attempts: 1 },
+        circuitBreaker: { failureThreshold: 1 },
+      });
+      Bun.spawn = mock(() => mockSpawn(1, "", "manifest unknown: manifest unknown")) as any;
+      await client.cloneImage("ghcr.io/org/app:v1");
+
+      const spawn = mock(() => mockSpawn(0));
+      Bun.spawn = spawn as any;
+      const result = await client.cloneImage("ghcr.io/org/app:v2");
+
+      expect(result.success).toBe(true);
+      expect(spawn).toHaveBeenCalled();
+
+      Bun.spawn = originalSpawn;
+    });
+  });
+  describe("native inspect client", () => {
+    test("should check images over HTTP without spawning skopeo", async () => {
+      const client = new RegistryClient(authConfig, undefined, undefined, [], { inspectClient: "native" });
+      const originalFetch = globalThis.fetch;
+      const spawn = mock(() => mockSpawn(0));
+      Bun.spawn = spawn as any;
+      globalThis.fetch = mock(async () =>
+        new Response(null, { status: 200, headers: { "Docker-Content-Digest": "sha256:abc" } })
+      ) as unknown as typeof fetch;
+
+      const result = await client.checkImageExists("ghcr.io/org/app:v1");
+
+      expect(result).toEqual({ image: "ghcr.io/org/app:v1", exists: true, digest: "sha256:abc", registry: "ghcr.io" });
+      expect(spawn).not.toHaveBeenCalled();
+
+      globalThis.fetch = originalFetch;
+      Bun.spawn = originalSpawn;
+    });
+
+    test("should reject unknown inspect clients", () => {
+      expect(() => new RegistryClient(authConfig, undefined, undefined, [], { inspectClient: "curl" as any })).toThrow();
+    });
+  });
+
+  describe("native copy client", () => {
+    test("should clone without spawning skopeo", async () => {
+      const client = new RegistryClient(authConfig, "myregistry.io", undefined, [], { copyClient: "native" });
+      const originalFetch = globalThis.fetch;
+      const spawn = mock(() => mockSpawn(0));
+      Bun.spawn = spawn as any;
+      const manifest = JSON.stringify({ schemaVersion: 2, mediaType: "application/vnd.oci.image.manifest.v1+json", layers: [] });
+      const methods: string[] = [];
+      globalThis.fetch = mock(async (_url: string | URL | Request, init?: RequestInit) => {
+        methods.push(init?.method || "GET");
+        return init?.method === "PUT" ? new Response(null, { status: 201 }) : new Response(manifest);
+      }) as unknown as typeof fetch;
+
+      const result = await client.cloneImage("nginx:1.25");
+
+      expect(result.success).toBe(true);
+      expect(methods).toEqual(["GET", "PUT", "PUT"]);
+      expect(spawn).not.toHaveBeenCalled();
+
+      globalThis.fetch = originalFetch;
+      Bun.spawn = originalSpawn;
+    });
+  });
+});
+
+describe("RegistryClient - registry backends", () => {
+  const authConfig: RegistryAuthConfig = { credentials: new Map() };
+
+  test("should check and clone images end to end without a registry", async () => {
+    const backend = new InMemoryRegistryBackend();
+    const digest = backend.addImage("nginx:1.25");
+    const client = new RegistryClient(authConfig, "myregistry.io", undefined, [], { backend });
+
+    expect((await client.checkImageExists("nginx:1.25")).exists).toBe(false);
+    expect(await client.cloneImage("nginx:1.25")).toEqual({ success: true });
+
+    const result = await client.checkImageExists("nginx:1.25");
+    expect(result).toEqual({ image: "nginx:1.25", exists: true, digest, registry: "myregistry.io" });
+    expect(backend.operations.map((o) => o.operation)).toEqual(["inspect", "copy", "inspect"]);
+  });
+
+  test("should report clones of missing images without retrying", async () => {
+    const backend = new InMemoryRegistryBackend();
+    const client = new RegistryClient(authConfig, "myregistry.io", undefined, [], { backend });
+
+    const result = await client.cloneImage("nginx:1.25");
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("manifest unknown");
+    expect(backend.operations).toHaveLength(1);
+  });
+
+  test("should report unreachable registries as connectivity failures", async () => {
+    const backend = new InMemoryRegistryBackend();
+    backend.failRegistry("ghcr.io");
+    const client = new RegistryClient(authConfig, undefined, undefined, [], { backend });
+
+    expect(await client.testRegistryConnectivity("ghcr.io")).toEqual({
+      success: false,
+      error: "Request to ghcr.io failed: Connection refused (ECONNREFUSED)",
+    });
+    expect(await client.testRegistryConnectivity("docker.io")).toEqual({ success: true });
+  });
+
+  test("should list tags through the backend", async () => {
+    const backend = new InMemoryRegistryBackend();
+    backend.addImage("ghcr.io/org/app:v1");
+    backend.addImage("ghcr.io/org/app:v2");
+    const client = new RegistryClient(authConfig, undefined, undefined, [], { backend });
+
+    expect(await client.listTags("ghcr.io/org/app")).toEqual(["v1", "v2"]);
+  });
 });
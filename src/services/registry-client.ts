@@ -3,46 +3,134 @@ import type {
   ImageValidationResult,
   RegistryAuthConfig,
 } from "../types";
-import { parseImageReference } from "../utils/image-parser";
-import { getCredentialsForRegistry } from "../utils/credentials";
+import { parseImageReference, formatImageReference } from "../utils/image-parser";
+import { applyTargetLayout, resolveTargetLayout } from "../utils/target-layout";
 import { metrics, METRICS } from "./metrics";
+import { ReplicationQueue, type ReplicationJob } from "./replication-queue";
+import type { TargetMappings } from "./target-mappings";
+import type { ImageCheckCache } from "./image-cache";
+import { ProcessScheduler } from "./process-scheduler";
+import { CircuitBreaker, type CircuitBreakerOptions } from "./circuit-breaker";
+import { createRegistryBackend, type ClientImplementation, type RegistryBackend } from "./registry-backend";
 import { logger } from "../utils/logger";
+import { SingleFlight } from "../utils/single-flight";
+import { withRetry, DEFAULT_RETRY_OPTIONS, type RetryOptions } from "../utils/retry";
+import { classifyRegistryError, classifyRetry } from "../utils/registry-errors";
 
 /**
- * Sanitize command arguments for logging by masking credentials
+ * Error message used when a registry operation is cancelled by the admission deadline
  */
-function sanitizeArgs(args: string[]): string {
-  const sanitized = [...args];
-  const credsFlags = ["--creds", "--src-creds", "--dest-creds"];
-  
-  for (let i = 0; i < sanitized.length; i++) {
-    if (credsFlags.includes(sanitized[i]) && i + 1 < sanitized.length) {
-      // Mask the password part, keep username for debugging
-      const creds = sanitized[i + 1];
-      const colonIndex = creds.indexOf(":");
-      if (colonIndex > 0) {
-        sanitized[i + 1] = creds.substring(0, colonIndex + 1) + "***";
-      } else {
-        sanitized[i + 1] = "***";
-      }
-    }
-  }
-  
-  return sanitized.join(" ");
+export const DEADLINE_EXCEEDED_ERROR = "Admission deadline exceeded";
+
+/**
+ * Error message prefix used when a registry is skipped because its circuit is open
+ */
+export const CIRCUIT_OPEN_ERROR = "Circuit breaker open";
+
+/**
+ * Whether an error means the registry itself is unavailable, as opposed to
+ * answering that the image is missing or the credentials are wrong
+ */
+function isRegistryOutage(message: string): boolean {
+  const errorClass = classifyRegistryError(message);
+  return errorClass === "timeout" || errorClass === "network" || classifyRetry(message).retryable;
 }
 
 /**
- * Registry client using Skopeo for container image operations
- * Skopeo provides battle-tested, production-ready image manipulation
+ * Outcome of a clone
+ */
+export interface CloneResult {
+  success: boolean;
+  error?: string;
+  openRegistry?: string; // Not copied because this registry's circuit breaker is open
+}
+
+/**
+ * Optional behaviour of the registry client
+ */
+export interface RegistryClientOptions {
+  // Maximum number of background clones running at once
+  replicationConcurrency?: number;
+  // Target repository layout name or template (see utils/target-layout)
+  targetLayout?: string;
+  // Ordered per-prefix rules, consulted before the target registry and layout
+  targetMappings?: TargetMappings;
+  // Cache for existence checks; checks always hit the registry without one
+  imageCache?: ImageCheckCache;
+  // Maximum number of registry operations running at once
+  processConcurrency?: number;
+  // Maximum number of registry operations talking to one registry at once
+  registryConcurrency?: number;
+  // Attempts and backoff for transient registry failures
+  retry?: Partial<RetryOptions>;
+  // Consecutive failures before a registry is short-circuited and how long until it is probed
+  circuitBreaker?: CircuitBreakerOptions;
+  // "native" answers existence checks over HTTP instead of skopeo inspect
+  inspectClient?: ClientImplementation;
+  // "native" copies images in-process instead of with skopeo copy
+  copyClient?: ClientImplementation;
+  // Backend for every operation, overriding inspectClient and copyClient
+  backend?: RegistryBackend;
+}
+
+/**
+ * Registry client for container image checks and replication
+ * Registry operations are delegated to a backend (skopeo by default, see
+ * registry-backend); this client adds target resolution, caching, coalescing,
+ * scheduling, retries and circuit breaking on top.
  * Supports Docker Hub, GCR, GHCR, ACR, ECR, and generic registries
  */
 export class RegistryClient {
+  private replicationQueue: ReplicationQueue;
+  private targetLayout: string;
+  private targetMappings?: TargetMappings;
+  private imageCache?: ImageCheckCache;
+  private inflightChecks = new SingleFlight<ImageValidationResult>();
+  // Copies outlive the requests waiting on them so slow images still get replicated
+  private inflightClones = new SingleFlight<CloneResult>({ detached: true });
+  private scheduler: ProcessScheduler;
+  private retryOptions: RetryOptions;
+  private circuitBreaker: CircuitBreaker;
+  // Answers inspections, connectivity tests and tag listings
+  private inspectBackend: RegistryBackend;
+  private copyBackend: RegistryBackend;
+
   constructor(
-    private authConfig: RegistryAuthConfig,
+    authConfig: RegistryAuthConfig,
     private targetRegistry?: string,
     private timeout: number = 240000, // 4 minutes default
-    private insecureRegistries: string[] = [] // Registries to use HTTP instead of HTTPS
-  ) {}
+    insecureRegistries: string[] = [], // Registries to use HTTP instead of HTTPS
+    options: RegistryClientOptions = {}
+  ) {
+    this.targetLayout = resolveTargetLayout(options.targetLayout);
+    this.targetMappings = options.targetMappings;
+    this.imageCache = options.imageCache;
+    this.scheduler = new ProcessScheduler(options.processConcurrency, options.registryConcurrency);
+    this.circuitBreaker = new CircuitBreaker(options.circuitBreaker);
+    for (const [name, value] of [["inspect", options.inspectClient], ["copy", options.copyClient]]) {
+      if (value && value !== "skopeo" && value !== "native") {
+        throw new Error(`Invalid ${name} client "${value}", expected "skopeo" or "native"`);
+      }
+    }
+    // Inspect and copy share one backend when they use the same implementation
+    const backends = new Map<ClientImplementation, RegistryBackend>();
+    const select = (implementation: ClientImplementation = "skopeo") => {
+      if (!backends.has(implementation)) {
+        backends.set(implementation, createRegistryBackend(implementation, authConfig, insecureRegistries, timeout));
+      }
+      return backends.get(implementation)!;
+    };
+    this.inspectBackend = options.backend ?? select(options.inspectClient);
+    this.copyBackend = options.backend ?? select(options.copyClient);
+    this.retryOptions = { ...DEFAULT_RETRY_OPTIONS, ...options.retry };
+    if (!(this.retryOptions.attempts >= 1)) {
+      throw new Error(`Invalid retry attempts: ${this.retryOptions.attempts}`);
+    }
+    this.replicationQueue = new ReplicationQueue(
+      (job) => this.cloneImage(job.sourceImage, job.targetRegistry),
+      options.replicationConcurrency
+    );
+  }
 
   /**
    * Get the configured target registry
@@ -51,293 +139,404 @@ export class RegistryClient {
     return this.targetRegistry;
   }
 
+  /**
+   * Check if images are replicated, either to the target registry or by mapping rules
+   */
+  isReplicationEnabled(): boolean {
+    return !!this.targetRegistry || (this.targetMappings?.size ?? 0) > 0;
+  }
+
+  /**
+   * Check if an image is served from a replication target, the target registry or a mapping target
+   */
+  isReplicationTarget(image: string): boolean {
+    const registry = parseImageReference(image).registry;
+    return registry === this.targetRegistry || (this.targetMappings?.targetRegistries.includes(registry) ?? false);
+  }
+
+  /**
+   * Build the reference an image is stored under in the target registry
+   * Used for the existence check, the clone and the mutating rewrite so all
+   * three always agree on where the replicated copy lives. Images already
+   * served from a replication target are used as-is; otherwise the first
+   * matching mapping rule wins, then the layout is applied to the target
+   * registry. Returns undefined for images that are not replicated.
+   */
+  getTargetImageReference(
+    image: string,
+    targetRegistry: string | undefined = this.targetRegistry
+  ): string | undefined {
+    const imageRef = parseImageReference(image);
+    const name = `${imageRef.registry}/${imageRef.repository}`;
+    let repository: string | undefined;
+
+    const mapping = this.targetMappings?.resolve(image);
+    if (this.isReplicationTarget(image) || (targetRegistry && name.startsWith(`${targetRegistry}/`))) {
+      repository = name;
+    } else if (mapping) {
+      repository = `${mapping.registry}/${mapping.repository}`;
+    } else if (targetRegistry) {
+      // The repository path comes from the configured layout
+      repository = `${targetRegistry}/${applyTargetLayout(this.targetLayout, imageRef)}`;
+    }
+
+    if (!repository) {
+      return undefined;
+    }
+
+    // Build target image reference, handling both tags and digests
+    return imageRef.digest
+      ? `${repository}@${imageRef.digest}`
+      : `${repository}:${imageRef.tag || "latest"}`;
+  }
+
   /**
    * Check if an image exists in the registry
    * If targetRegistry is set, checks if the image exists in the target registry
    * (to determine if it needs to be cloned)
+   * Results are served from the image cache when one is configured; checks
+   * cut short by the admission deadline are never cached. Concurrent checks of
+   * the same reference share one inspection.
    */
-  async checkImageExists(image: string): Promise<ImageValidationResult> {
+  async checkImageExists(image: string, signal?: AbortSignal): Promise<ImageValidationResult> {
     const imageRef = parseImageReference(image);
     logger.debug("Checking image existence", { image, registry: imageRef.registry, repository: imageRef.repository });
 
-    // If target registry is set, check if image exists there (cloned version)
-    if (this.targetRegistry) {
-      // Build target image reference, handling both tags and digests
-      const reference = imageRef.digest 
-        ? `${this.targetRegistry}/${imageRef.repository}@${imageRef.digest}`
-        : `${this.targetRegistry}/${imageRef.repository}:${imageRef.tag || "latest"}`;
-      const targetRef = parseImageReference(reference);
-
-      try {
-        const exists = await this.verifyManifest(targetRef);
-        return {
-          image,
-          exists,
-          registry: targetRef.registry,
-        };
-      } catch (error) {
-        return {
-          image,
-          exists: false,
-          error: error instanceof Error ? error.message : String(error),
-          registry: targetRef.registry,
-        };
-      }
+    // If target registry is set, check if image exists there (cloned version),
+    // otherwise check the source registry
+    const reference = this.getTargetImageReference(image);
+    const checkRef = reference ? parseImageReference(reference) : imageRef;
+    const cacheKey = formatImageReference(checkRef);
+
+    const cached = this.imageCache?.get(cacheKey);
+    if (cached) {
+      return { ...cached, image, cached: true };
+    }
+
+    // Concurrent checks of the same reference share one inspection
+    if (this.inflightChecks.has(cacheKey)) {
+      metrics.incrementCounter(METRICS.COALESCED_REQUESTS_TOTAL, { operation: "check" });
     }
 
-    // Otherwise, check the source registry
     try {
-      const exists = await this.verifyManifest(imageRef);
-      return {
-        image,
-        exists,
-        registry: imageRef.registry,
-      };
+      const result = await this.inflightChecks.run(cacheKey, (shared) => this.lookupImage(checkRef, cacheKey, shared), signal);
+      return { ...result, image };
     } catch (error) {
+      // Only this caller's deadline ran out; the shared check carries on for the others
       return {
         image,
         exists: false,
-        error: error instanceof Error ? error.message : String(error),
-        registry: imageRef.registry,
+        error: signal?.aborted ? DEADLINE_EXCEEDED_ERROR : error instanceof Error ? error.message : String(error),
+        registry: checkRef.registry,
       };
     }
   }
 
   /**
-   * Verify that a manifest exists for the image using skopeo inspect
+   * Look up a manifest and cache the outcome
+   * Registries with an open circuit are not contacted and nothing is cached
    */
-  private async verifyManifest(imageRef: ImageReference): Promise<boolean> {
-    const startTime = Date.now();
-    const reference = imageRef.digest || imageRef.tag || "latest";
-    
-    // Build full image reference for skopeo
-    const fullImage = imageRef.digest
-      ? `${imageRef.registry}/${imageRef.repository}@${imageRef.digest}`
-      : `${imageRef.registry}/${imageRef.repository}:${reference}`;
-
-    logger.debug("Verifying manifest with skopeo", { fullImage, registry: imageRef.registry });
+  private async lookupImage(
+    imageRef: ImageReference,
+    cacheKey: string,
+    signal: AbortSignal
+  ): Promise<ImageValidationResult> {
+    const registry = imageRef.registry;
+    if (!this.circuitBreaker.tryAcquire(registry)) {
+      return {
+        image: cacheKey,
+        exists: false,
+        error: `${CIRCUIT_OPEN_ERROR} for ${registry}`,
+        registry,
+        circuitOpen: true,
+      };
+    }
 
+    let result: ImageValidationResult;
     try {
-      const args = ["inspect", `docker://${fullImage}`];
-      
-      // Add credentials if available
-      const creds = getCredentialsForRegistry(this.authConfig, imageRef.registry);
-      if (creds) {
-        args.push("--creds", `${creds.username}:${creds.password}`);
-      }
-
-      // Add insecure flag if registry is in the insecure list
-      if (this.insecureRegistries.includes(imageRef.registry)) {
-        args.push("--tls-verify=false");
-      }
-
-      const proc = Bun.spawn(["skopeo", ...args], {
-        stdout: "pipe",
-        stderr: "pipe",
-      });
+      const digest = await this.retry(
+        "inspect",
+        imageRef.registry,
+        () => this.schedule("inspect", [registry], () => this.inspectBackend.inspect(imageRef, signal), signal),
+        signal
+      );
+      result = {
+        image: cacheKey,
+        exists: digest !== null,
+        digest: digest || undefined,
+        registry: imageRef.registry,
+      };
+    } catch (error) {
+      result = {
+        image: cacheKey,
+        exists: false,
+        error: error instanceof Error ? error.message : String(error),
+        registry: imageRef.registry,
+      };
+    }
 
-      // Wait for process to complete with timeout
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => reject(new Error("timeout")), this.timeout);
-      });
+    if (result.error === DEADLINE_EXCEEDED_ERROR) {
+      this.circuitBreaker.release(registry);
+      return result;
+    }
 
-      const result = await Promise.race([proc.exited, timeoutPromise]);
+    if (result.error && isRegistryOutage(result.error)) {
+      this.circuitBreaker.recordFailure(registry);
+    } else {
+      this.circuitBreaker.recordSuccess(registry);
+    }
+    this.imageCache?.set(cacheKey, result, !!imageRef.digest);
+    return result;
+  }
 
-      if (result === 0) {
-        const duration = (Date.now() - startTime) / 1000;
-        metrics.observeHistogram(METRICS.REGISTRY_REQUEST_DURATION, duration, {
-          registry: imageRef.registry,
-          status: "200",
-        });
-        return true;
-      }
+  /**
+   * Drop cached existence checks
+   * Accepts an image reference (normalized the same way as checks are) or a
+   * glob over normalized references; purges everything without a pattern.
+   * Returns the number of purged entries.
+   */
+  purgeImageCache(pattern?: string): number {
+    if (!this.imageCache) return 0;
+    if (pattern === undefined) return this.imageCache.purge();
+    if (/[*?]/.test(pattern)) return this.imageCache.purge(pattern);
+
+    const reference = this.getTargetImageReference(pattern);
+    const keys = new Set([formatImageReference(parseImageReference(pattern))]);
+    if (reference) keys.add(formatImageReference(parseImageReference(reference)));
+    return [...keys].reduce((purged, key) => purged + this.imageCache!.purge(key), 0);
+  }
 
-      // Read stderr for error details
-      const stderr = await new Response(proc.stderr).text();
-      
-      // 404-like errors - image not found
-      if (stderr.includes("manifest unknown") || stderr.includes("not found")) {
-        const duration = (Date.now() - startTime) / 1000;
-        metrics.observeHistogram(METRICS.REGISTRY_REQUEST_DURATION, duration, {
-          registry: imageRef.registry,
-          status: "404",
-        });
-        return false;
+  /**
+   * Run an operation once the scheduler has a slot for every registry involved
+   * Giving up while queued is reported like a deadline expiry during the run
+   */
+  private async schedule<T>(
+    operation: string,
+    registries: string[],
+    fn: () => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    try {
+      return await this.scheduler.run(operation, registries, fn, signal);
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new Error(DEADLINE_EXCEEDED_ERROR);
       }
+      throw error;
+    }
+  }
 
-      // Other errors
-      throw new Error(`Skopeo inspect failed: ${stderr.trim()}`);
+  /**
+   * Run a registry operation, retrying transient failures with backoff
+   * Deadline expiries are never retried
+   */
+  private async retry<T>(
+    operation: string,
+    registry: string,
+    fn: () => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    try {
+      return await withRetry(
+        fn,
+        this.retryOptions,
+        (error) => classifyRetry(error instanceof Error ? error.message : String(error)),
+        (retry, reason, delayMs, error) => {
+          metrics.incrementCounter(METRICS.REGISTRY_RETRIES_TOTAL, { operation, registry, reason });
+          logger.warn("Retrying registry operation", {
+            operation,
+            registry,
+            retry,
+            reason,
+            delayMs: Math.round(delayMs),
+            error: error instanceof Error ? error.message : String(error),
+          });
+        },
+        signal
+      );
     } catch (error) {
-      if (error instanceof Error && error.message === "timeout") {
-        throw new Error(`Request to ${imageRef.registry} timed out after ${this.timeout}ms`);
+      if (signal?.aborted) {
+        throw new Error(DEADLINE_EXCEEDED_ERROR);
       }
       throw error;
     }
   }
 
   /**
-   * Check multiple images in parallel
+   * Check multiple images in parallel, bounded by the process scheduler
+   * Aborting the signal cancels checks still running, which then report an error
    */
-  async checkImages(images: string[]): Promise<ImageValidationResult[]> {
+  async checkImages(images: string[], signal?: AbortSignal): Promise<ImageValidationResult[]> {
     const uniqueImages = [...new Set(images)];
-    return Promise.all(uniqueImages.map((img) => this.checkImageExists(img)));
+    return Promise.all(uniqueImages.map((img) => this.checkImageExists(img, signal)));
   }
 
   /**
-   * Clear the token cache (no-op for Skopeo, kept for API compatibility)
+   * Clear the token caches of the backends
+   * Skopeo handles authentication internally and keeps no tokens
    */
   clearTokenCache(): void {
-    // Skopeo handles authentication internally, no cache to clear
+    for (const backend of new Set([this.inspectBackend, this.copyBackend])) {
+      backend.clearTokenCache?.();
+    }
   }
 
   /**
-   * Test connectivity to a registry using skopeo
+   * Test connectivity to a registry
+   * Any answer counts as connected, even one denying access
    */
   async testRegistryConnectivity(registry: string): Promise<{
     success: boolean;
     error?: string;
   }> {
     logger.debug("Testing connectivity to registry", { registry });
-    
-    try {
-      // Try to list tags for a common repository
-      // This is a lightweight operation that tests connectivity
-      const testImage = `${registry}/library/busybox:latest`;
-      const args = ["inspect", `docker://${testImage}`];
-
-      // Add credentials if available
-      const creds = getCredentialsForRegistry(this.authConfig, registry);
-      if (creds) {
-        args.push("--creds", `${creds.username}:${creds.password}`);
-      }
-
-      // Add insecure flag if registry is in the insecure list
-      if (this.insecureRegistries.includes(registry)) {
-        args.push("--tls-verify=false");
-      }
-
-      const proc = Bun.spawn(["skopeo", ...args], {
-        stdout: "pipe",
-        stderr: "pipe",
-      });
-
-      // Short timeout for connectivity test
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => reject(new Error("timeout")), 10000);
-      });
-
-      const result = await Promise.race([proc.exited, timeoutPromise]);
-
-      // Any successful response means we can connect (even if the image doesn't exist)
-      // 0 = success, non-zero but not a connection error = also ok for connectivity test
-      if (result === 0) {
-        logger.debug("Successfully connected to registry", { registry });
-        return { success: true };
-      }
-
-      const stderr = await new Response(proc.stderr).text();
-      
-      // These errors mean we connected but image doesn't exist - that's ok for connectivity test
-      if (stderr.includes("manifest unknown") || stderr.includes("not found")) {
-        return { success: true };
-      }
-      
-      // Connection errors
-      if (stderr.includes("connection refused") || 
-          stderr.includes("no such host") ||
-          stderr.includes("timeout") ||
-          stderr.includes("network unreachable")) {
-        return { 
-          success: false, 
-          error: `Connection error: ${stderr.trim()}` 
-        };
-      }
 
-      logger.warn("Registry returned unexpected error", { registry, error: stderr });
-      return { 
-        success: false, 
-        error: stderr.trim() 
-      };
+    try {
+      await this.schedule("ping", [registry], () => this.inspectBackend.ping(registry));
+      logger.debug("Successfully connected to registry", { registry });
+      return { success: true };
     } catch (error) {
-      let errorMessage: string;
-      
-      if (error instanceof Error && error.message === "timeout") {
-        errorMessage = `Connection timeout after 10s`;
-      } else {
-        errorMessage = error instanceof Error ? error.message : String(error);
-      }
-      
+      const errorMessage = error instanceof Error ? error.message : String(error);
       logger.error("Failed to connect to registry", undefined, { registry, error: errorMessage });
       return { success: false, error: errorMessage };
     }
   }
 
   /**
-   * Clone an image from source to target registry using skopeo copy
+   * List the tags of an image's repository, retrying transient failures
+   * Returns an empty list if the repository does not exist
    */
-  async cloneImage(sourceImage: string, targetRegistry: string): Promise<{
-    success: boolean;
-    error?: string;
-  }> {
-    const startTime = Date.now();
+  async listTags(image: string, signal?: AbortSignal): Promise<string[]> {
+    const imageRef = parseImageReference(image);
+    return this.retry(
+      "listTags",
+      imageRef.registry,
+      () => this.schedule("listTags", [imageRef.registry], () => this.inspectBackend.listTags(imageRef, signal), signal),
+      signal
+    );
+  }
+
+  /**
+   * Queue a clone of an image into the target registry without waiting for it
+   * Returns the queued, running or newly created job for the target image
+   */
+  enqueueClone(sourceImage: string, targetRegistry?: string): ReplicationJob {
+    const targetImage = this.getTargetImageReference(sourceImage, targetRegistry);
+    if (!targetImage) {
+      throw new Error(`No replication target configured for ${sourceImage}`);
+    }
+    return this.replicationQueue.enqueue(sourceImage, targetImage, parseImageReference(targetImage).registry);
+  }
+
+  /**
+   * Get the status of background replication jobs
+   */
+  getReplicationJobs(): ReplicationJob[] {
+    return this.replicationQueue.list();
+  }
+
+  /**
+   * Wait for all background replication jobs to finish
+   */
+  async waitForReplications(): Promise<void> {
+    await this.replicationQueue.drain();
+  }
+
+  /**
+   * Clone an image from source to target registry
+   * Concurrent clones to the same target share one copy. Aborting the signal
+   * reports the clone as failed to this caller; the copy carries on, so a
+   * later request finds the image replicated.
+   */
+  async cloneImage(sourceImage: string, targetRegistry?: string, signal?: AbortSignal): Promise<CloneResult> {
     const sourceRef = parseImageReference(sourceImage);
     logger.debug("Starting image clone", { sourceImage, targetRegistry, sourceRegistry: sourceRef.registry, sourceRepository: sourceRef.repository });
     
     // Build target image reference
-    const targetImage = sourceRef.digest
-      ? `${targetRegistry}/${sourceRef.repository}@${sourceRef.digest}`
-      : `${targetRegistry}/${sourceRef.repository}:${sourceRef.tag || "latest"}`;
+    const targetImage = this.getTargetImageReference(sourceImage, targetRegistry);
+    if (!targetImage) {
+      return { success: false, error: `No replication target configured for ${sourceImage}` };
+    }
     const targetRef = parseImageReference(targetImage);
     logger.debug("Target image prepared", { targetImage, targetRegistry: targetRef.registry, targetRepository: targetRef.repository });
 
-    logger.info(`Cloning image from source to target`, { sourceImage, targetImage });
-
-    try {
-      // Use skopeo copy for efficient registry-to-registry transfer
-      // Skopeo will handle connectivity and authentication errors directly
-      const args = ["copy", `docker://${sourceImage}`, `docker://${targetImage}`];
-
-      // Add source credentials
-      const sourceCreds = getCredentialsForRegistry(this.authConfig, sourceRef.registry);
-      if (sourceCreds) {
-        args.push("--src-creds", `${sourceCreds.username}:${sourceCreds.password}`);
-      }
-
-      // Add destination credentials
-      const targetCreds = getCredentialsForRegistry(this.authConfig, targetRef.registry);
-      if (targetCreds) {
-        args.push("--dest-creds", `${targetCreds.username}:${targetCreds.password}`);
-      }
-
-      // Add insecure flags if needed
-      if (this.insecureRegistries.includes(sourceRef.registry)) {
-        args.push("--src-tls-verify=false");
-      }
-      if (this.insecureRegistries.includes(targetRef.registry)) {
-        args.push("--dest-tls-verify=false");
+    // Don't wait for a copy from or to a registry that is known to be down
+    const registries = [...new Set([sourceRef.registry, targetRef.registry])];
+    const acquired: string[] = [];
+    for (const registry of registries) {
+      if (!this.circuitBreaker.tryAcquire(registry)) {
+        acquired.forEach((r) => this.circuitBreaker.release(r));
+        return { success: false, error: `${CIRCUIT_OPEN_ERROR} for ${registry}`, openRegistry: registry };
       }
+      acquired.push(registry);
+    }
 
-      // Add --all flag to copy all architectures in manifest lists
-      args.push("--all");
+    // Concurrent clones to the same target share one copy
+    if (this.inflightClones.has(targetImage)) {
+      metrics.incrementCounter(METRICS.COALESCED_REQUESTS_TOTAL, { operation: "clone" });
+    }
 
-      logger.debug("Executing skopeo copy", { args: sanitizeArgs(args) });
+    let result: CloneResult;
+    try {
+      result = await this.inflightClones.run(
+        targetImage,
+        (shared) => this.copyImage(sourceImage, sourceRef, targetImage, targetRef, shared),
+        signal
+      );
+    } catch {
+      // Only this caller's deadline ran out; the shared copy carries on
+      registries.forEach((r) => this.circuitBreaker.release(r));
+      return { success: false, error: DEADLINE_EXCEEDED_ERROR };
+    }
 
-      const proc = Bun.spawn(["skopeo", ...args], {
-        stdout: "pipe",
-        stderr: "pipe",
-      });
+    this.recordCopyOutcome(registries, result);
+    return result;
+  }
 
-      // Wait for process to complete with timeout
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => reject(new Error("timeout")), this.timeout);
-      });
+  /**
+   * Report a copy's outcome to the circuit breakers of its source and target
+   * An outage only counts against the registries named in the error, a copy
+   * failure alone does not tell which side was down. Timeouts count against
+   * neither: a copy that ran out of time names its target even when the
+   * source was the slow side.
+   */
+  private recordCopyOutcome(registries: string[], result: CloneResult): void {
+    const error = result.error || "";
+    const outage = !result.success && isRegistryOutage(error);
+    const timedOut = !result.success && classifyRegistryError(error) === "timeout";
+
+    for (const registry of registries) {
+      if (timedOut || (outage && !error.includes(registry))) {
+        this.circuitBreaker.release(registry);
+      } else if (outage) {
+        this.circuitBreaker.recordFailure(registry);
+      } else {
+        this.circuitBreaker.recordSuccess(registry);
+      }
+    }
+  }
 
-      const result = await Promise.race([proc.exited, timeoutPromise]);
+  /**
+   * Copy an image between registries with the copy backend
+   */
+  private async copyImage(
+    sourceImage: string,
+    sourceRef: ImageReference,
+    targetImage: string,
+    targetRef: ImageReference,
+    signal: AbortSignal
+  ): Promise<CloneResult> {
+    const startTime = Date.now();
+    logger.info(`Cloning image from source to target`, { sourceImage, targetImage });
 
-      if (result !== 0) {
-        const stderr = await new Response(proc.stderr).text();
-        throw new Error(`Skopeo copy failed: ${stderr.trim()}`);
-      }
+    try {
+      // Wait for the copy to complete with timeout, retrying transient failures
+      await this.retry("copy", sourceRef.registry, () => this.schedule(
+        "copy",
+        [sourceRef.registry, targetRef.registry],
+        () => this.copyBackend.copy(sourceRef, targetRef, signal),
+        signal
+      ), signal);
 
       const duration = (Date.now() - startTime) / 1000;
       metrics.observeHistogram(METRICS.IMAGE_CLONE_DURATION, duration, {
@@ -351,6 +550,9 @@ export class RegistryClient {
         status: "success",
       });
 
+      // The copy now exists, so a cached negative check must not outlive it
+      this.imageCache?.delete(formatImageReference(targetRef));
+
       logger.info("Successfully cloned image", { sourceImage, targetImage, duration });
       return { success: true };
     } catch (error) {
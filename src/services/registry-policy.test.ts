@@ -0,0 +1,75 @@
+import { describe, test, expect } from "bun:test";
+import { RegistryPolicy, getPolicySubject } from "./registry-policy";
+
+describe("getPolicySubject", () => {
+  test("should normalize Docker Hub images", () => {
+    expect(getPolicySubject("nginx:latest")).toBe("docker.io/library/nginx");
+    expect(getPolicySubject("docker.io/bitnami/redis:7")).toBe("docker.io/bitnami/redis");
+  });
+
+  test("should keep other registries", () => {
+    expect(getPolicySubject("ghcr.io/org/app@sha256:abc")).toBe("ghcr.io/org/app");
+  });
+});
+
+describe("RegistryPolicy", () => {
+  test("should allow everything with an empty policy", () => {
+    const policy = new RegistryPolicy({});
+    expect(policy.evaluate("anything.io/foo/bar:1")).toBeNull();
+  });
+
+  test("should allow images matching an allow rule", () => {
+    const policy = new RegistryPolicy({ allow: ["ghcr.io/our-org/**", "docker.io/library/*"] });
+
+    expect(policy.evaluate("nginx:1.25")).toBeNull();
+    expect(policy.evaluate("ghcr.io/our-org/team/app:v1")).toBeNull();
+  });
+
+  test("should deny images outside the allowlist", () => {
+    const policy = new RegistryPolicy({ allow: ["docker.io/library/*"] });
+
+    const violation = policy.evaluate("docker.io/bitnami/redis:7");
+    expect(violation?.subject).toBe("docker.io/bitnami/redis");
+    expect(violation?.rule).toContain("allowlist");
+  });
+
+  test("should not let single star span path segments", () => {
+    const policy = new RegistryPolicy({ allow: ["ghcr.io/our-org/*"] });
+
+    expect(policy.evaluate("ghcr.io/our-org/app:v1")).toBeNull();
+    expect(policy.evaluate("ghcr.io/our-org/team/app:v1")).not.toBeNull();
+  });
+
+  test("should evaluate deny rules before allow rules", () => {
+    const policy = new RegistryPolicy({
+      allow: ["ghcr.io/**"],
+      deny: ["ghcr.io/untrusted/**"],
+    });
+
+    const violation = policy.evaluate("ghcr.io/untrusted/app:v1");
+    expect(violation?.rule).toBe('deny "ghcr.io/untrusted/**"');
+  });
+
+  test("should only apply deny rules in deny-only mode", () => {
+    const policy = new RegistryPolicy({ allow: ["ghcr.io/our-org/**"], deny: ["myregistry.io/untrusted/**"] });
+
+    expect(policy.evaluate("myregistry.io/our-org/app:v1", true)).toBeNull();
+    expect(policy.evaluate("myregistry.io/untrusted/app:v1", true)?.rule).toBe('deny "myregistry.io/untrusted/**"');
+  });
+
+  test("should support regex rules", () => {
+    const policy = new RegistryPolicy({ deny: [{ regex: "^docker\\.io/.*/xmrig$" }] });
+
+    expect(policy.evaluate("someone/xmrig:latest")?.rule).toContain("regex");
+    expect(policy.evaluate("someone/app:latest")).toBeNull();
+  });
+
+  test("should accept Docker Hub aliases in rules", () => {
+    const policy = new RegistryPolicy({ allow: ["index.docker.io/library/*"] });
+    expect(policy.evaluate("nginx")).toBeNull();
+  });
+
+  test("should reject invalid rules", () => {
+    expect(() => new RegistryPolicy({ allow: [{ glob: "" }] })).toThrow();
+  });
+});
@@ -0,0 +1,110 @@
+import { getDisplayRegistry, getImageName } from "../utils/image-parser";
+import { globToRegExp } from "../utils/patterns";
+import { loadJsonConfig } from "../utils/config-file";
+
+const REGISTRY_POLICY_PATH = "/config/registry-policy.json";
+
+/**
+ * A rule as written in the policy file
+ * Plain strings are globs ("*" stays within a path segment, "**" spans segments)
+ */
+export type RegistryPolicyRuleConfig = string | { glob: string } | { regex: string };
+
+export interface RegistryPolicyConfig {
+  // Repositories workloads may use; when empty everything not denied is allowed
+  allow?: RegistryPolicyRuleConfig[];
+  // Repositories workloads may never use, evaluated before the allowlist
+  deny?: RegistryPolicyRuleConfig[];
+}
+
+export interface RegistryPolicyViolation {
+  image: string;
+  // The normalized "registry/repository" the rules were matched against
+  subject: string;
+  // Description of the violated rule, e.g. 'deny "ghcr.io/evil/**"'
+  rule: string;
+}
+
+interface CompiledRule {
+  description: string;
+  regex: RegExp;
+}
+
+/**
+ * Registry allowlist/denylist evaluated against parsed image references
+ */
+export class RegistryPolicy {
+  private allowRules: CompiledRule[];
+  private denyRules: CompiledRule[];
+
+  constructor(config: RegistryPolicyConfig) {
+    this.allowRules = (config.allow || []).map(compileRule);
+    this.denyRules = (config.deny || []).map(compileRule);
+  }
+
+  /**
+   * Check an image against the policy
+   * With denyOnly the allowlist is skipped and only deny rules apply.
+   * Returns the violation, or null if the image may be used
+   */
+  evaluate(image: string, denyOnly: boolean = false): RegistryPolicyViolation | null {
+    const subject = getPolicySubject(image);
+
+    const denied = this.denyRules.find((rule) => rule.regex.test(subject));
+    if (denied) {
+      return { image, subject, rule: `deny ${denied.description}` };
+    }
+
+    if (!denyOnly && this.allowRules.length > 0 && !this.allowRules.some((rule) => rule.regex.test(subject))) {
+      return { image, subject, rule: "allowlist (no allow rule matches)" };
+    }
+
+    return null;
+  }
+
+  /**
+   * Number of configured rules
+   */
+  get size(): number {
+    return this.allowRules.length + this.denyRules.length;
+  }
+}
+
+/**
+ * Build the "registry/repository" string policy rules are matched against
+ */
+export function getPolicySubject(image: string): string {
+  return getImageName(image);
+}
+
+function compileRule(rule: RegistryPolicyRuleConfig): CompiledRule {
+  if (typeof rule === "object" && "regex" in rule) {
+    return { description: `regex /${rule.regex}/`, regex: new RegExp(rule.regex) };
+  }
+
+  const glob = typeof rule === "string" ? rule : rule.glob;
+  if (typeof glob !== "string" || glob.length === 0) {
+    throw new Error(`Invalid registry policy rule: ${JSON.stringify(rule)}`);
+  }
+
+  // Rules may name Docker Hub by any of its aliases
+  const slashIndex = glob.indexOf("/");
+  const registry = slashIndex === -1 ? glob : glob.substring(0, slashIndex);
+  const normalized = getDisplayRegistry(registry) + (slashIndex === -1 ? "" : glob.substring(slashIndex));
+
+  return { description: `"${glob}"`, regex: globToRegExp(normalized, "/") };
+}
+
+/**
+ * Load the registry policy from a JSON file
+ * Without a policy file every registry is allowed
+ */
+export async function loadRegistryPolicy(
+  path: string = REGISTRY_POLICY_PATH
+): Promise<RegistryPolicy | undefined> {
+  return loadJsonConfig(path, {
+    name: "registry policy",
+    build: (config: RegistryPolicyConfig) => new RegistryPolicy(config),
+    describe: (config) => ({ allowRules: config.allow?.length || 0, denyRules: config.deny?.length || 0 }),
+  });
+}
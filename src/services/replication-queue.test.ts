@@ -0,0 +1,103 @@
+import { describe, test, expect, mock } from "bun:test";
+import { ReplicationQueue } from "./replication-queue";
+
+// Worker whose jobs stay running until released
+function createControlledWorker() {
+  const releases: Array<(result: { success: boolean; error?: string }) => void> = [];
+  const worker = mock(() => new Promise<{ success: boolean; error?: string }>((resolve) => releases.push(resolve)));
+  return { worker, releases };
+}
+
+describe("ReplicationQueue", () => {
+  test("should run queued jobs in the background", async () => {
+    const worker = mock(() => Promise.resolve({ success: true }));
+    const queue = new ReplicationQueue(worker);
+
+    const job = queue.enqueue("nginx:latest", "myregistry.io/library/nginx:latest", "myregistry.io");
+    expect(["queued", "running"]).toContain(job.state);
+
+    await queue.drain();
+
+    expect(worker).toHaveBeenCalledTimes(1);
+    expect(queue.get("myregistry.io/library/nginx:latest")?.state).toBe("succeeded");
+  });
+
+  test("should share a job for the same target image", async () => {
+    const { worker, releases } = createControlledWorker();
+    const queue = new ReplicationQueue(worker);
+
+    const first = queue.enqueue("nginx:latest", "target/nginx:latest", "target");
+    const second = queue.enqueue("nginx:latest", "target/nginx:latest", "target");
+
+    expect(second).toBe(first);
+    expect(worker).toHaveBeenCalledTimes(1);
+
+    releases[0]({ success: true });
+    await queue.drain();
+  });
+
+  test("should bound concurrency", async () => {
+    const { worker, releases } = createControlledWorker();
+    const queue = new ReplicationQueue(worker, 2);
+
+    queue.enqueue("a:1", "target/a:1", "target");
+    queue.enqueue("b:1", "target/b:1", "target");
+    queue.enqueue("c:1", "target/c:1", "target");
+
+    expect(worker).toHaveBeenCalledTimes(2);
+    expect(queue.get("target/c:1")?.state).toBe("queued");
+
+    releases[0]({ success: true });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(worker).toHaveBeenCalledTimes(3);
+    expect(queue.get("target/c:1")?.state).toBe("running");
+
+    releases[1]({ success: true });
+    releases[2]({ success: true });
+    await queue.drain();
+  });
+
+  test("should record failures and retry on next enqueue", async () => {
+    const worker = mock()
+      .mockResolvedValueOnce({ success: false, error: "unauthorized" })
+      .mockResolvedValueOnce({ success: true });
+    const queue = new ReplicationQueue(worker);
+
+    queue.enqueue("app:v1", "target/app:v1", "target");
+    await queue.drain();
+
+    const failed = queue.get("target/app:v1");
+    expect(failed?.state).toBe("failed");
+    expect(failed?.error).toBe("unauthorized");
+
+    queue.enqueue("app:v1", "target/app:v1", "target");
+    await queue.drain();
+
+    expect(queue.get("target/app:v1")?.state).toBe("succeeded");
+    expect(worker).toHaveBeenCalledTimes(2);
+  });
+
+  test("should treat worker exceptions as failures", async () => {
+    const worker = mock(() => Promise.reject(new Error("boom")));
+    const queue = new ReplicationQueue(worker);
+
+    queue.enqueue("app:v1", "target/app:v1", "target");
+    await queue.drain();
+
+    expect(queue.get("target/app:v1")?.state).toBe("failed");
+    expect(queue.get("target/app:v1")?.error).toBe("boom");
+  });
+
+  test("should prune oldest finished jobs beyond retention", async () => {
+    const worker = mock(() => Promise.resolve({ success: true }));
+    const queue = new ReplicationQueue(worker, 1, 2);
+
+    queue.enqueue("a:1", "target/a:1", "target");
+    queue.enqueue("b:1", "target/b:1", "target");
+    queue.enqueue("c:1", "target/c:1", "target");
+    await queue.drain();
+
+    expect(queue.list().map((job) => job.targetImage)).toEqual(["target/b:1", "target/c:1"]);
+  });
+});
@@ -0,0 +1,162 @@
+import { metrics, METRICS } from "./metrics";
+import { logger } from "../utils/logger";
+
+export type ReplicationState = "queued" | "running" | "succeeded" | "failed";
+
+/**
+ * A background clone of a source image into the target registry
+ */
+export interface ReplicationJob {
+  sourceImage: string;
+  targetImage: string;
+  targetRegistry: string;
+  state: ReplicationState;
+  enqueuedAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  error?: string;
+}
+
+export type ReplicationWorker = (job: ReplicationJob) => Promise<{
+  success: boolean;
+  error?: string;
+}>;
+
+/**
+ * Queue that clones images in the background with bounded concurrency
+ * Jobs are keyed by target image so concurrent admissions of the same image
+ * share a single clone; finished jobs are retained for status reporting
+ */
+export class ReplicationQueue {
+  private jobs = new Map<string, ReplicationJob>();
+  private pending: ReplicationJob[] = [];
+  private running = 0;
+
+  constructor(
+    private worker: ReplicationWorker,
+    private concurrency: number = 2,
+    private retention: number = 500 // Finished jobs kept for status reporting
+  ) {}
+
+  /**
+   * Queue a clone, or return the job already queued or running for the target image
+   * Finished jobs are replaced, so a failed clone is retried on the next admission
+   */
+  enqueue(sourceImage: string, targetImage: string, targetRegistry: string): ReplicationJob {
+    const existing = this.jobs.get(targetImage);
+    if (existing && (existing.state === "queued" || existing.state === "running")) {
+      return existing;
+    }
+
+    const job: ReplicationJob = {
+      sourceImage,
+      targetImage,
+      targetRegistry,
+      state: "queued",
+      enqueuedAt: Date.now(),
+    };
+
+    // Re-insert so the map stays ordered by most recent activity
+    this.jobs.delete(targetImage);
+    this.jobs.set(targetImage, job);
+    this.pending.push(job);
+    logger.info("Queued image replication", { sourceImage, targetImage, queueDepth: this.pending.length });
+
+    this.updateGauges();
+    this.pump();
+    return job;
+  }
+
+  /**
+   * Get the most recent job for a target image
+   */
+  get(targetImage: string): ReplicationJob | undefined {
+    return this.jobs.get(targetImage);
+  }
+
+  /**
+   * List all known jobs, oldest first
+   */
+  list(): ReplicationJob[] {
+    return [...this.jobs.values()].map((job) => ({ ...job }));
+  }
+
+  /**
+   * Wait until no jobs are queued or running
+   */
+  async drain(): Promise<void> {
+    while (this.pending.length > 0 || this.running > 0) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  }
+
+  private pump(): void {
+    while (this.running < this.concurrency && this.pending.length > 0) {
+      const job = this.pending.shift()!;
+      this.running++;
+      this.updateGauges();
+      void this.run(job);
+    }
+  }
+
+  private async run(job: ReplicationJob): Promise<void> {
+    job.state = "running";
+    job.startedAt = Date.now();
+
+    try {
+      const result = await this.worker(job);
+      job.state = result.success ? "succeeded" : "failed";
+      job.error = result.error;
+    } catch (error) {
+      job.state = "failed";
+      job.error = error instanceof Error ? error.message : String(error);
+    }
+
+    job.finishedAt = Date.now();
+    metrics.incrementCounter(METRICS.REPLICATION_JOBS_TOTAL, {
+      target_registry: job.targetRegistry,
+      status: job.state === "succeeded" ? "success" : "error",
+    });
+
+    if (job.state === "succeeded") {
+      logger.info("Background replication finished", {
+        sourceImage: job.sourceImage,
+        targetImage: job.targetImage,
+        duration: (job.finishedAt - job.startedAt) / 1000,
+      });
+    } else {
+      logger.error("Background replication failed", job.error, {
+        sourceImage: job.sourceImage,
+        targetImage: job.targetImage,
+      });
+    }
+
+    this.running--;
+    this.prune();
+    this.updateGauges();
+    this.pump();
+  }
+
+  /**
+   * Drop the oldest finished jobs beyond the retention limit
+   */
+  private prune(): void {
+    let finished = 0;
+    for (const job of this.jobs.values()) {
+      if (job.state === "succeeded" || job.state === "failed") finished++;
+    }
+
+    for (const [key, job] of this.jobs) {
+      if (finished <= this.retention) break;
+      if (job.state === "succeeded" || job.state === "failed") {
+        this.jobs.delete(key);
+        finished--;
+      }
+    }
+  }
+
+  private updateGauges(): void {
+    metrics.setGauge(METRICS.REPLICATION_QUEUE_DEPTH, this.pending.length);
+    metrics.setGauge(METRICS.REPLICATION_IN_PROGRESS, this.running);
+  }
+}
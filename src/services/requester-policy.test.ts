@@ -0,0 +1,42 @@
+import { describe, test, expect } from "bun:test";
+import { RequesterPolicy } from "./requester-policy";
+
+const user = (username: string, groups: string[] = []) => ({ username, uid: "uid", groups });
+
+describe("RequesterPolicy", () => {
+  const policy = new RequesterPolicy({
+    bypass: {
+      serviceAccounts: ["flux-system/*"],
+      users: ["system:node:*"],
+    },
+    replicators: {
+      groups: ["platform-admins"],
+      serviceAccounts: ["argocd/argocd-application-controller"],
+    },
+  });
+
+  test("should bypass matching service accounts and users", () => {
+    expect(policy.isBypassed(user("system:serviceaccount:flux-system:kustomize-controller"))).toBe(true);
+    expect(policy.isBypassed(user("system:node:worker-1"))).toBe(true);
+    expect(policy.isBypassed(user("system:serviceaccount:default:app"))).toBe(false);
+  });
+
+  test("should not let * cross a colon", () => {
+    expect(policy.isBypassed(user("system:node:worker-1:extra"))).toBe(false);
+  });
+
+  test("should allow replication only for matching requesters", () => {
+    expect(policy.canReplicate(user("alice", ["platform-admins"]))).toBe(true);
+    expect(policy.canReplicate(user("system:serviceaccount:argocd:argocd-application-controller"))).toBe(true);
+    expect(policy.canReplicate(user("bob", ["developers"]))).toBe(false);
+    expect(policy.canReplicate(undefined)).toBe(false);
+  });
+
+  test("should allow everyone to replicate without replicators", () => {
+    expect(new RequesterPolicy({}).canReplicate(user("bob"))).toBe(true);
+  });
+
+  test("should reject malformed service accounts", () => {
+    expect(() => new RequesterPolicy({ bypass: { serviceAccounts: ["flux-system"] } })).toThrow("Invalid service account");
+  });
+});
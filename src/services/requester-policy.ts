@@ -0,0 +1,95 @@
+import type { AdmissionReviewRequest } from "../types";
+import { matchesAnyGlob } from "../utils/patterns";
+import { loadJsonConfig } from "../utils/config-file";
+
+const REQUESTER_POLICY_PATH = "/config/requester-policy.json";
+
+export type UserInfo = AdmissionReviewRequest["request"]["userInfo"];
+
+/**
+ * Identifies requesters by username, group or service account
+ * Patterns are globs where "*" stops at ":", e.g. "system:serviceaccount:flux-system:*"
+ * Service accounts are written as "<namespace>/<name>", e.g. "kube-system/*"
+ */
+export interface RequesterMatchConfig {
+  users?: string[];
+  groups?: string[];
+  serviceAccounts?: string[];
+}
+
+export interface RequesterPolicyConfig {
+  // Requesters whose objects are admitted without any validation
+  bypass?: RequesterMatchConfig;
+  // Requesters allowed to trigger new replications; everyone when omitted
+  replicators?: RequesterMatchConfig;
+}
+
+interface RequesterPatterns {
+  users: string[];
+  groups: string[];
+}
+
+/**
+ * Decisions based on who sent the request (AdmissionReview userInfo)
+ */
+export class RequesterPolicy {
+  private bypass: RequesterPatterns;
+  private replicators?: RequesterPatterns;
+
+  constructor(config: RequesterPolicyConfig = {}) {
+    this.bypass = compileMatch(config.bypass);
+    this.replicators = config.replicators ? compileMatch(config.replicators) : undefined;
+  }
+
+  /**
+   * Check if validation is skipped for the requester
+   */
+  isBypassed(userInfo: UserInfo | undefined): boolean {
+    return matchesRequester(userInfo, this.bypass);
+  }
+
+  /**
+   * Check if the requester may trigger a replication into the target registry
+   */
+  canReplicate(userInfo: UserInfo | undefined): boolean {
+    return !this.replicators || matchesRequester(userInfo, this.replicators);
+  }
+}
+
+/**
+ * Compile a match config, turning service accounts into usernames
+ */
+function compileMatch(config: RequesterMatchConfig | undefined): RequesterPatterns {
+  const users = [...(config?.users || [])];
+  for (const serviceAccount of config?.serviceAccounts || []) {
+    const [namespace, name, ...rest] = serviceAccount.split("/");
+    if (!namespace || !name || rest.length > 0) {
+      throw new Error(`Invalid service account "${serviceAccount}", expected "<namespace>/<name>"`);
+    }
+    users.push(`system:serviceaccount:${namespace}:${name}`);
+  }
+  return { users, groups: config?.groups || [] };
+}
+
+function matchesRequester(userInfo: UserInfo | undefined, patterns: RequesterPatterns): boolean {
+  if (!userInfo) return false;
+  return matchesAnyGlob(userInfo.username || "", patterns.users, ":")
+    || (userInfo.groups || []).some((group) => matchesAnyGlob(group, patterns.groups, ":"));
+}
+
+/**
+ * Load the requester policy from a JSON file
+ * Without a policy file every requester is validated and may trigger replication
+ */
+export async function loadRequesterPolicy(
+  path: string = REQUESTER_POLICY_PATH
+): Promise<RequesterPolicy | undefined> {
+  return loadJsonConfig(path, {
+    name: "requester policy",
+    build: (config: RequesterPolicyConfig) => new RequesterPolicy(config),
+    describe: (config) => ({
+      bypassRules: Object.values(config.bypass || {}).flat().length,
+      replicationRestricted: !!config.replicators,
+    }),
+  });
+}
@@ -0,0 +1,63 @@
+import { describe, test, expect, mock, beforeEach, afterEach } from "bun:test";
+import { SkopeoBackend } from "./skopeo-backend";
+import { parseImageReference } from "../utils/image-parser";
+import type { RegistryAuthConfig } from "../types";
+
+const mockSpawn = (exitCode: number, stdout = "", stderr = "") => {
+  return {
+    exited: Promise.resolve(exitCode),
+    stdout: new Response(stdout).body,
+    stderr: new Response(stderr).body,
+    kill: mock(() => {}),
+  } as any;
+};
+
+describe("SkopeoBackend", () => {
+  let authConfig: RegistryAuthConfig;
+  let originalSpawn: typeof Bun.spawn;
+
+  beforeEach(() => {
+    authConfig = {
+      credentials: new Map([["ghcr.io", { registry: "ghcr.io", username: "user", password: "pass" }]]),
+    };
+    originalSpawn = Bun.spawn;
+  });
+
+  afterEach(() => {
+    Bun.spawn = originalSpawn;
+  });
+
+  describe("listTags", () => {
+    test("should parse skopeo list-tags output", async () => {
+      Bun.spawn = mock(() => mockSpawn(0, JSON.stringify({ Repository: "ghcr.io/org/app", Tags: ["v1", "v2"] }))) as any;
+
+      const tags = await new SkopeoBackend(authConfig).listTags(parseImageReference("ghcr.io/org/app:v1"));
+
+      expect(tags).toEqual(["v1", "v2"]);
+      expect(Bun.spawn).toHaveBeenCalledWith(
+        ["skopeo", "list-tags", "docker://ghcr.io/org/app", "--creds", "user:pass"],
+        expect.anything()
+      );
+    });
+
+    test("should return no tags for a missing repository", async () => {
+      Bun.spawn = mock(() => mockSpawn(1, "", "repository name not known to registry: name unknown: not found")) as any;
+
+      expect(await new SkopeoBackend(authConfig).listTags(parseImageReference("ghcr.io/org/missing"))).toEqual([]);
+    });
+  });
+
+  describe("ping", () => {
+    test("should treat a missing probe image as connected", async () => {
+      Bun.spawn = mock(() => mockSpawn(1, "", "manifest unknown: manifest not found")) as any;
+
+      await new SkopeoBackend(authConfig).ping("ghcr.io");
+    });
+
+    test("should report connection errors", async () => {
+      Bun.spawn = mock(() => mockSpawn(1, "", "dial tcp: no such host")) as any;
+
+      await expect(new SkopeoBackend(authConfig).ping("ghcr.io")).rejects.toThrow("Connection error: dial tcp: no such host");
+    });
+  });
+});
@@ -0,0 +1,271 @@
+import type { ImageReference, RegistryAuthConfig } from "../types";
+import type { RegistryBackend } from "./registry-backend";
+import { PING_TIMEOUT_MS } from "./registry-backend";
+import { getCredentialsForRegistry } from "../utils/credentials";
+import { formatImageReference } from "../utils/image-parser";
+import { metrics, METRICS } from "./metrics";
+import { logger } from "../utils/logger";
+
+/**
+ * Sanitize command arguments for logging by masking credentials
+ */
+function sanitizeArgs(args: string[]): string {
+  const sanitized = [...args];
+  const credsFlags = ["--creds", "--src-creds", "--dest-creds"];
+
+  for (let i = 0; i < sanitized.length; i++) {
+    if (credsFlags.includes(sanitized[i]) && i + 1 < sanitized.length) {
+      // Mask the password part, keep username for debugging
+      const creds = sanitized[i + 1];
+      const colonIndex = creds.indexOf(":");
+      if (colonIndex > 0) {
+        sanitized[i + 1] = creds.substring(0, colonIndex + 1) + "***";
+      } else {
+        sanitized[i + 1] = "***";
+      }
+    }
+  }
+
+  return sanitized.join(" ");
+}
+
+/**
+ * Extract the manifest digest from skopeo inspect JSON output
+ */
+function parseInspectDigest(output: string): string | undefined {
+  try {
+    const parsed = JSON.parse(output) as { Digest?: unknown };
+    return typeof parsed.Digest === "string" ? parsed.Digest : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Whether skopeo reported a missing image or repository
+ */
+function isNotFound(stderr: string): boolean {
+  return stderr.includes("manifest unknown") || stderr.includes("not found");
+}
+
+interface SkopeoResult {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Run skopeo, killing it when the timeout elapses or the signal aborts
+ * Throws Error("timeout") on timeout and the abort reason on abort
+ */
+async function runSkopeo(
+  args: string[],
+  timeout: number,
+  signal?: AbortSignal
+): Promise<SkopeoResult> {
+  signal?.throwIfAborted();
+
+  const proc = Bun.spawn(["skopeo", ...args], {
+    stdout: "pipe",
+    stderr: "pipe",
+  });
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let onAbort: (() => void) | undefined;
+  const cancelled = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error("timeout")), timeout);
+    onAbort = () => reject(signal!.reason);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+  try {
+    const exitCode = await Promise.race([proc.exited, cancelled]);
+    const [stdout, stderr] = await Promise.all([
+      new Response(proc.stdout).text(),
+      new Response(proc.stderr).text(),
+    ]);
+    return { exitCode, stdout, stderr };
+  } catch (error) {
+    proc.kill();
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    if (onAbort) signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+/**
+ * Backend forking skopeo for every operation
+ * Skopeo provides battle-tested, production-ready image manipulation and
+ * handles authentication against every registry it supports by itself
+ */
+export class SkopeoBackend implements RegistryBackend {
+  readonly name = "skopeo";
+
+  constructor(
+    private authConfig: RegistryAuthConfig,
+    private insecureRegistries: string[] = [],
+    private timeout: number = 240000
+  ) {}
+
+  /**
+   * Look up a manifest with skopeo inspect
+   */
+  async inspect(image: ImageReference, signal?: AbortSignal): Promise<string | null> {
+    const startTime = Date.now();
+    const fullImage = formatImageReference(image);
+
+    logger.debug("Verifying manifest with skopeo", { fullImage, registry: image.registry });
+
+    const args = ["inspect", `docker://${fullImage}`, ...this.registryFlags(image.registry)];
+    const { exitCode, stdout, stderr } = await this.run(args, image.registry, signal);
+
+    if (exitCode === 0) {
+      this.observeRequest(image.registry, "200", startTime);
+      return parseInspectDigest(stdout) || image.digest || "";
+    }
+
+    // 404-like errors - image not found
+    if (isNotFound(stderr)) {
+      this.observeRequest(image.registry, "404", startTime);
+      return null;
+    }
+
+    throw new Error(`Skopeo inspect failed: ${stderr.trim()}`);
+  }
+
+  /**
+   * Copy all architectures of an image with skopeo copy --all
+   */
+  async copy(source: ImageReference, target: ImageReference, signal?: AbortSignal): Promise<void> {
+    // Use skopeo copy for efficient registry-to-registry transfer
+    // Skopeo will handle connectivity and authentication errors directly
+    const args = ["copy", `docker://${source.fullImage}`, `docker://${target.fullImage}`];
+
+    // Add source credentials
+    const sourceCreds = getCredentialsForRegistry(this.authConfig, source.registry);
+    if (sourceCreds) {
+      args.push("--src-creds", `${sourceCreds.username}:${sourceCreds.password}`);
+    }
+
+    // Add destination credentials
+    const targetCreds = getCredentialsForRegistry(this.authConfig, target.registry);
+    if (targetCreds) {
+      args.push("--dest-creds", `${targetCreds.username}:${targetCreds.password}`);
+    }
+
+    // Add insecure flags if needed
+    if (this.insecureRegistries.includes(source.registry)) {
+      args.push("--src-tls-verify=false");
+    }
+    if (this.insecureRegistries.includes(target.registry)) {
+      args.push("--dest-tls-verify=false");
+    }
+
+    // Add --all flag to copy all architectures in manifest lists
+    args.push("--all");
+
+    logger.debug("Executing skopeo copy", { args: sanitizeArgs(args) });
+
+    const { exitCode, stderr } = await this.run(args, target.registry, signal);
+    if (exitCode !== 0) {
+      throw new Error(`Skopeo copy failed: ${stderr.trim()}`);
+    }
+  }
+
+  /**
+   * Inspect a well-known image; any answer from the registry counts,
+   * including that the image does not exist
+   */
+  async ping(registry: string, signal?: AbortSignal): Promise<void> {
+    const args = ["inspect", `docker://${registry}/library/busybox:latest`, ...this.registryFlags(registry)];
+
+    let result: SkopeoResult;
+    try {
+      result = await runSkopeo(args, PING_TIMEOUT_MS, signal);
+    } catch (error) {
+      if (error instanceof Error && error.message === "timeout") {
+        throw new Error(`Connection timeout after ${PING_TIMEOUT_MS / 1000}s`);
+      }
+      throw error;
+    }
+
+    const { exitCode, stderr } = result;
+    if (exitCode === 0 || isNotFound(stderr)) {
+      return;
+    }
+
+    // Connection errors
+    if (stderr.includes("connection refused") ||
+        stderr.includes("no such host") ||
+        stderr.includes("timeout") ||
+        stderr.includes("network unreachable")) {
+      throw new Error(`Connection error: ${stderr.trim()}`);
+    }
+
+    logger.warn("Registry returned unexpected error", { registry, error: stderr });
+    throw new Error(stderr.trim());
+  }
+
+  /**
+   * List repository tags with skopeo list-tags
+   */
+  async listTags(image: ImageReference, signal?: AbortSignal): Promise<string[]> {
+    const repository = `${image.registry}/${image.repository}`;
+    const args = ["list-tags", `docker://${repository}`, ...this.registryFlags(image.registry)];
+    const { exitCode, stdout, stderr } = await this.run(args, image.registry, signal);
+
+    if (exitCode !== 0) {
+      if (isNotFound(stderr)) return [];
+      throw new Error(`Skopeo list-tags failed: ${stderr.trim()}`);
+    }
+
+    try {
+      const parsed = JSON.parse(stdout) as { Tags?: unknown };
+      return Array.isArray(parsed.Tags) ? parsed.Tags.filter((t): t is string => typeof t === "string") : [];
+    } catch {
+      throw new Error(`Skopeo list-tags returned invalid output for ${repository}`);
+    }
+  }
+
+  /**
+   * Credential and TLS flags for commands talking to a single registry
+   */
+  private registryFlags(registry: string): string[] {
+    const flags: string[] = [];
+
+    // Add credentials if available
+    const creds = getCredentialsForRegistry(this.authConfig, registry);
+    if (creds) {
+      flags.push("--creds", `${creds.username}:${creds.password}`);
+    }
+
+    // Add insecure flag if registry is in the insecure list
+    if (this.insecureRegistries.includes(registry)) {
+      flags.push("--tls-verify=false");
+    }
+
+    return flags;
+  }
+
+  /**
+   * Run skopeo with the operation timeout, reporting timeouts per registry
+   */
+  private async run(args: string[], registry: string, signal?: AbortSignal): Promise<SkopeoResult> {
+    try {
+      return await runSkopeo(args, this.timeout, signal);
+    } catch (error) {
+      if (error instanceof Error && error.message === "timeout") {
+        throw new Error(`Request to ${registry} timed out after ${this.timeout}ms`);
+      }
+      throw error;
+    }
+  }
+
+  private observeRequest(registry: string, status: string, startTime: number): void {
+    metrics.observeHistogram(METRICS.REGISTRY_REQUEST_DURATION, (Date.now() - startTime) / 1000, {
+      registry,
+      status,
+    });
+  }
+}
@@ -0,0 +1,69 @@
+import { describe, test, expect } from "bun:test";
+import {
+  MutableTagPolicy,
+  parseTagPolicyEnforcement,
+  parseNamespaceEnforcement,
+} from "./tag-policy";
+
+describe("MutableTagPolicy", () => {
+  const policy = new MutableTagPolicy({
+    enforcement: "warn",
+    namespaces: [
+      { namespace: "prod-*", enforcement: "deny" },
+      { namespace: "sandbox", enforcement: "off" },
+    ],
+    patterns: ["*-SNAPSHOT", "main"],
+  });
+
+  test("should flag untagged images", () => {
+    expect(policy.evaluate("nginx")?.reason).toContain("no tag");
+  });
+
+  test("should flag the latest tag", () => {
+    expect(policy.evaluate("nginx:latest")?.reason).toContain("latest");
+  });
+
+  test("should flag tags matching configured patterns", () => {
+    expect(policy.evaluate("app:1.0-SNAPSHOT")?.reason).toContain("mutable tag pattern");
+    expect(policy.evaluate("ghcr.io/org/app:main")).not.toBeNull();
+  });
+
+  test("should accept immutable tags and digests", () => {
+    expect(policy.evaluate("nginx:1.25.3")).toBeNull();
+    expect(policy.evaluate("nginx@sha256:abc")).toBeNull();
+  });
+
+  test("should resolve enforcement per namespace", () => {
+    expect(policy.getEnforcement("prod-eu")).toBe("deny");
+    expect(policy.getEnforcement("sandbox")).toBe("off");
+    expect(policy.getEnforcement("default")).toBe("warn");
+  });
+});
+
+describe("parseTagPolicyEnforcement", () => {
+  test("should parse known levels", () => {
+    expect(parseTagPolicyEnforcement("Deny")).toBe("deny");
+    expect(parseTagPolicyEnforcement(" warn ")).toBe("warn");
+  });
+
+  test("should reject unknown levels", () => {
+    expect(() => parseTagPolicyEnforcement("block")).toThrow("Invalid mutable tag enforcement");
+  });
+});
+
+describe("parseNamespaceEnforcement", () => {
+  test("should parse overrides", () => {
+    expect(parseNamespaceEnforcement("prod-*=deny, dev-*=warn")).toEqual([
+      { namespace: "prod-*", enforcement: "deny" },
+      { namespace: "dev-*", enforcement: "warn" },
+    ]);
+  });
+
+  test("should return empty list when unset", () => {
+    expect(parseNamespaceEnforcement(undefined)).toEqual([]);
+  });
+
+  test("should reject malformed entries", () => {
+    expect(() => parseNamespaceEnforcement("prod")).toThrow("Invalid namespace enforcement");
+  });
+});
@@ -0,0 +1,102 @@
+import { parseImageReference } from "../utils/image-parser";
+import { matchesAnyGlob, matchesGlob } from "../utils/patterns";
+
+/**
+ * How images with mutable tags are treated
+ * - off: no checks
+ * - warn: admit with a warning
+ * - deny: reject the request
+ */
+export type TagPolicyEnforcement = "off" | "warn" | "deny";
+
+export interface TagPolicyConfig {
+  // Enforcement for namespaces without an override
+  enforcement: TagPolicyEnforcement;
+  // Namespace glob -> enforcement, the first matching entry wins
+  namespaces?: Array<{ namespace: string; enforcement: TagPolicyEnforcement }>;
+  // Additional tag globs treated as mutable, e.g. "*-SNAPSHOT" or "main"
+  patterns?: string[];
+}
+
+export interface MutableTagFinding {
+  image: string;
+  reason: string;
+}
+
+const ENFORCEMENT_LEVELS: TagPolicyEnforcement[] = ["off", "warn", "deny"];
+
+/**
+ * Flags images referenced without a tag, by "latest", or by a configured mutable tag
+ * Digest references are immutable and never flagged
+ */
+export class MutableTagPolicy {
+  constructor(private config: TagPolicyConfig) {}
+
+  /**
+   * Get the enforcement level that applies to a namespace
+   */
+  getEnforcement(namespace: string): TagPolicyEnforcement {
+    const override = this.config.namespaces?.find((entry) => matchesGlob(namespace, entry.namespace));
+    return override ? override.enforcement : this.config.enforcement;
+  }
+
+  /**
+   * Check a single image, returning why its tag is mutable or null if it is fine
+   */
+  evaluate(image: string): MutableTagFinding | null {
+    const imageRef = parseImageReference(image);
+
+    if (imageRef.digest) {
+      return null;
+    }
+
+    if (imageRef.tagDefaulted) {
+      return { image, reason: "no tag specified (defaults to latest)" };
+    }
+
+    if (imageRef.tag === "latest") {
+      return { image, reason: 'uses the "latest" tag' };
+    }
+
+    if (matchesAnyGlob(imageRef.tag, this.config.patterns || [])) {
+      return { image, reason: `tag "${imageRef.tag}" matches a mutable tag pattern` };
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Parse an enforcement level, throwing on unknown values
+ */
+export function parseTagPolicyEnforcement(value: string): TagPolicyEnforcement {
+  const level = value.trim().toLowerCase() as TagPolicyEnforcement;
+  if (!ENFORCEMENT_LEVELS.includes(level)) {
+    throw new Error(`Invalid mutable tag enforcement "${value}", expected one of: ${ENFORCEMENT_LEVELS.join(", ")}`);
+  }
+  return level;
+}
+
+/**
+ * Parse per-namespace overrides in the form "prod-*=deny,dev-*=warn"
+ */
+export function parseNamespaceEnforcement(
+  value: string | undefined
+): Array<{ namespace: string; enforcement: TagPolicyEnforcement }> {
+  if (!value) return [];
+
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separatorIndex = entry.lastIndexOf("=");
+      if (separatorIndex <= 0) {
+        throw new Error(`Invalid namespace enforcement "${entry}", expected <namespace>=<off|warn|deny>`);
+      }
+      return {
+        namespace: entry.substring(0, separatorIndex).trim(),
+        enforcement: parseTagPolicyEnforcement(entry.substring(separatorIndex + 1)),
+      };
+    });
+}
@@ -0,0 +1,50 @@
+import { describe, test, expect } from "bun:test";
+import { TargetMappings } from "./target-mappings";
+
+describe("TargetMappings", () => {
+  const mappings = new TargetMappings([
+    { match: "docker.io/bitnami/*", target: "mirror.acr.io/thirdparty/bitnami/*" },
+    { match: "gcr.io/distroless/*", target: "mirror.acr.io/base/*" },
+    { match: "ghcr.io/our-org/**", target: "internal.acr.io/org/**" },
+    { match: "docker.io/**", target: "mirror.acr.io/dockerhub/**" },
+  ]);
+
+  test("should map matching prefixes", () => {
+    expect(mappings.resolve("docker.io/bitnami/redis:7")).toEqual({
+      registry: "mirror.acr.io",
+      repository: "thirdparty/bitnami/redis",
+      rule: "docker.io/bitnami/*",
+    });
+    expect(mappings.resolve("gcr.io/distroless/static:nonroot")?.repository).toBe("base/static");
+  });
+
+  test("should support different target registries", () => {
+    expect(mappings.resolve("ghcr.io/our-org/team/app:v1")).toMatchObject({
+      registry: "internal.acr.io",
+      repository: "org/team/app",
+    });
+  });
+
+  test("should use the first matching rule", () => {
+    expect(mappings.resolve("bitnami/redis:7")?.rule).toBe("docker.io/bitnami/*");
+    expect(mappings.resolve("nginx:1.25")?.repository).toBe("dockerhub/library/nginx");
+  });
+
+  test("should return null when no rule matches", () => {
+    expect(mappings.resolve("quay.io/prometheus/prometheus:v2")).toBeNull();
+  });
+
+  test("should list target registries", () => {
+    expect(mappings.targetRegistries).toEqual(["mirror.acr.io", "internal.acr.io"]);
+  });
+
+  test("should reject targets without a registry host", () => {
+    expect(() => new TargetMappings([{ match: "docker.io/*", target: "*" }])).toThrow("registry host");
+  });
+
+  test("should reject targets with more wildcards than the match", () => {
+    expect(() => new TargetMappings([{ match: "docker.io/library/nginx", target: "mirror.io/*" }])).toThrow(
+      "more wildcards"
+    );
+  });
+});
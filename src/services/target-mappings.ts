@@ -0,0 +1,136 @@
+import { getDisplayRegistry, getImageName } from "../utils/image-parser";
+import { loadJsonConfig } from "../utils/config-file";
+
+const TARGET_MAPPINGS_PATH = "/config/target-mappings.json";
+
+/**
+ * A mapping rule as written in the mappings file
+ * e.g. { "match": "docker.io/bitnami/*", "target": "mirror.acr.io/thirdparty/bitnami/*" }
+ * Wildcards captured by "match" ("*" within a segment, "**" across segments)
+ * replace the wildcards of "target" in order
+ */
+export interface TargetMappingRuleConfig {
+  match: string;
+  target: string;
+}
+
+export interface TargetMappingsConfig {
+  rules: TargetMappingRuleConfig[];
+}
+
+export interface TargetMapping {
+  registry: string;
+  repository: string;
+  // The rule that produced the mapping, for logging
+  rule: string;
+}
+
+interface CompiledMappingRule {
+  match: string;
+  regex: RegExp;
+  targetParts: string[]; // Literal parts of the target between wildcards
+}
+
+/**
+ * Ordered table of source repository -> target repository rules
+ * The first matching rule decides both the target registry host and the path
+ */
+export class TargetMappings {
+  private rules: CompiledMappingRule[];
+
+  constructor(rules: TargetMappingRuleConfig[]) {
+    this.rules = rules.map(compileMappingRule);
+  }
+
+  /**
+   * Map an image to its target repository, or null if no rule matches
+   */
+  resolve(image: string): TargetMapping | null {
+    const name = getImageName(image);
+
+    for (const rule of this.rules) {
+      const match = rule.regex.exec(name);
+      if (!match) continue;
+
+      const captures = match.slice(1);
+      const target = rule.targetParts.reduce(
+        (result, part, index) => result + (index > 0 ? captures[index - 1] ?? "" : "") + part,
+        ""
+      );
+
+      const slashIndex = target.indexOf("/");
+      return {
+        registry: target.substring(0, slashIndex),
+        repository: target.substring(slashIndex + 1).replace(/\/{2,}/g, "/").replace(/\/$/, ""),
+        rule: rule.match,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * All target registry hosts referenced by the rules
+   */
+  get targetRegistries(): string[] {
+    return [...new Set(this.rules.map((rule) => rule.targetParts.join("").split("/")[0]))];
+  }
+
+  /**
+   * Number of configured rules
+   */
+  get size(): number {
+    return this.rules.length;
+  }
+}
+
+function compileMappingRule(rule: TargetMappingRuleConfig): CompiledMappingRule {
+  if (!rule?.match || !rule?.target) {
+    throw new Error(`Invalid target mapping rule: ${JSON.stringify(rule)}`);
+  }
+
+  // The registry host must be literal, wildcards may only appear in the path
+  const targetParts = rule.target.split(/\*\*|\*/);
+  if (targetParts[0].indexOf("/") <= 0) {
+    throw new Error(`Target mapping "${rule.target}" must start with a registry host followed by a path`);
+  }
+
+  // Rules may name Docker Hub by any of its aliases
+  const slashIndex = rule.match.indexOf("/");
+  const match = slashIndex === -1
+    ? getDisplayRegistry(rule.match)
+    : getDisplayRegistry(rule.match.substring(0, slashIndex)) + rule.match.substring(slashIndex);
+
+  let source = "";
+  let wildcards = 0;
+  for (let i = 0; i < match.length; i++) {
+    if (match[i] === "*") {
+      const double = match[i + 1] === "*";
+      source += double ? "(.*)" : "([^/]*)";
+      if (double) i++;
+      wildcards++;
+    } else {
+      source += match[i].replace(/[.+?^${}()|[\]\\/]/g, "\\$&");
+    }
+  }
+
+  if (targetParts.length - 1 > wildcards) {
+    throw new Error(`Target mapping "${rule.target}" has more wildcards than "${rule.match}"`);
+  }
+
+  return { match: rule.match, regex: new RegExp(`^${source}$`), targetParts };
+}
+
+/**
+ * Load target mapping rules from a JSON file
+ * Without a mappings file only TARGET_REGISTRY decides where images go
+ */
+export async function loadTargetMappings(
+  path: string = TARGET_MAPPINGS_PATH
+): Promise<TargetMappings | undefined> {
+  return loadJsonConfig(path, {
+    name: "target mappings",
+    build: (config: TargetMappingsConfig) => new TargetMappings(config.rules || []),
+    describe: (_, mappings) => ({ ruleCount: mappings.size }),
+  });
+}
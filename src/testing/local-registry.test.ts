@@ -0,0 +1,170 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { LocalRegistry } from "./local-registry";
+import { NativeBackend } from "../services/native-backend";
+import { OciImageCopier } from "../services/oci-copy";
+import { OciRegistryClient } from "../services/oci-client";
+import { parseImageReference, parseWwwAuthenticate } from "../utils/image-parser";
+import type { RegistryAuthConfig } from "../types";
+
+describe("LocalRegistry", () => {
+  let registry: LocalRegistry;
+
+  afterEach(() => {
+    registry.stop();
+  });
+
+  describe("without auth", () => {
+    let backend: NativeBackend;
+
+    beforeEach(() => {
+      registry = new LocalRegistry().start();
+      backend = new NativeBackend({ credentials: new Map() }, [registry.host], 5000);
+    });
+
+    test("should serve pushed manifests by tag and digest", async () => {
+      const digest = registry.pushImage("team/app", "v1");
+
+      expect(await backend.inspect(parseImageReference(`${registry.host}/team/app:v1`))).toBe(digest);
+      expect(await backend.inspect(parseImageReference(`${registry.host}/team/app@${digest}`))).toBe(digest);
+      expect(await backend.inspect(parseImageReference(`${registry.host}/team/app:v2`))).toBeNull();
+    });
+
+    test("should answer the version check", async () => {
+      await backend.ping(registry.host);
+
+      expect(registry.requests).toEqual([{ method: "GET", path: "/v2/" }]);
+    });
+
+    test("should paginate tag lists", async () => {
+      for (const tag of ["v3", "v1", "v2"]) registry.pushImage("team/app", tag);
+
+      const response = await fetch(`http://${registry.host}/v2/team/app/tags/list?n=2`);
+
+      expect(await response.json()).toEqual({ name: "team/app", tags: ["v1", "v2"] });
+      expect(response.headers.get("link")).toBe('</v2/team/app/tags/list?n=2&last=v2>; rel="next"');
+      expect(await backend.listTags(parseImageReference(`${registry.host}/team/app`))).toEqual(["v1", "v2", "v3"]);
+    });
+
+    test("should mount blobs across repositories", async () => {
+      registry.pushImage("team/app", "v1", ["a".repeat(40), "b".repeat(10)]);
+      const client = new OciRegistryClient({ credentials: new Map() }, [registry.host], 5000);
+      const copier = new OciImageCopier(client);
+
+      const stats = await copier.copy(
+        parseImageReference(`${registry.host}/team/app:v1`),
+        parseImageReference(`${registry.host}/mirror/app:v1`)
+      );
+
+      expect(stats.blobs).toEqual({ exists: 0, mounted: 3, uploaded: 0 });
+      expect(registry.hasManifest("mirror/app", "v1")).toBe(true);
+    });
+
+    test("should reject manifests referencing unknown blobs", async () => {
+      const manifest = JSON.stringify({
+        schemaVersion: 2,
+        mediaType: "application/vnd.oci.image.manifest.v1+json",
+        config: { digest: "sha256:" + "0".repeat(64), size: 2 },
+        layers: [],
+      });
+
+      const response = await fetch(`http://${registry.host}/v2/team/app/manifests/v1`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/vnd.oci.image.manifest.v1+json" },
+        body: manifest,
+      });
+
+      expect(response.status).toBe(400);
+      expect(((await response.json()) as any).errors[0].code).toBe("MANIFEST_BLOB_UNKNOWN");
+    });
+
+    test("should complete chunked uploads in order only", async () => {
+      const start = await fetch(`http://${registry.host}/v2/team/app/blobs/uploads/`, { method: "POST" });
+      const location = new URL(start.headers.get("location")!, `http://${registry.host}`).toString();
+
+      const skipped = await fetch(location, { method: "PATCH", headers: { "Content-Range": "5-9" }, body: "12345" });
+      expect(skipped.status).toBe(416);
+
+      await fetch(location, { method: "PATCH", headers: { "Content-Range": "0-4" }, body: "hello" });
+      const digest = `sha256:${new Bun.CryptoHasher("sha256").update("hello").digest("hex")}`;
+      const done = await fetch(`${location}?digest=${digest}`, { method: "PUT" });
+
+      expect(done.status).toBe(201);
+      expect(await (await fetch(`http://${registry.host}/v2/team/app/blobs/${digest}`)).text()).toBe("hello");
+    });
+  });
+
+  describe("with token auth", () => {
+    let authConfig: RegistryAuthConfig;
+
+    beforeEach(() => {
+      registry = new LocalRegistry({ auth: { username: "user", password: "pass" } }).start();
+      authConfig = {
+        credentials: new Map([[registry.host, { registry: registry.host, username: "user", password: "pass" }]]),
+      };
+    });
+
+    test("should challenge anonymous requests with a parseable realm and scope", async () => {
+      const response = await fetch(`http://${registry.host}/v2/team/app/manifests/v1`, { method: "HEAD" });
+
+      expect(response.status).toBe(401);
+      expect(parseWwwAuthenticate(response.headers.get("www-authenticate")!)).toEqual({
+        realm: `http://${registry.host}/token`,
+        service: "local-registry",
+        scope: "repository:team/app:pull",
+      });
+    });
+
+    test("should serve clients that answer the challenge", async () => {
+      const digest = registry.pushImage("team/app", "v1");
+      const backend = new NativeBackend(authConfig, [registry.host], 5000);
+
+      expect(await backend.inspect(parseImageReference(`${registry.host}/team/app:v1`))).toBe(digest);
+      expect(registry.requests.map((r) => `${r.method} ${r.path}`)).toEqual([
+        "HEAD /v2/team/app/manifests/v1",
+        "GET /token",
+        "HEAD /v2/team/app/manifests/v1",
+      ]);
+    });
+
+    test("should refuse tokens to wrong credentials", async () => {
+      registry.pushImage("team/app", "v1");
+      const wrong: RegistryAuthConfig = {
+        credentials: new Map([[registry.host, { registry: registry.host, username: "user", password: "nope" }]]),
+      };
+
+      await expect(
+        new NativeBackend(wrong, [registry.host], 5000).inspect(parseImageReference(`${registry.host}/team/app:v1`))
+      ).rejects.toThrow("unauthorized");
+    });
+  });
+
+  describe("injected failures", () => {
+    beforeEach(() => {
+      registry = new LocalRegistry().start();
+    });
+
+    test("should answer matching requests with the injected status", async () => {
+      registry.injectFailure({ match: /manifests/, status: 429, retryAfter: 3, times: 1 });
+
+      const limited = await fetch(`http://${registry.host}/v2/team/app/manifests/v1`);
+      const version = await fetch(`http://${registry.host}/v2/`);
+      const next = await fetch(`http://${registry.host}/v2/team/app/manifests/v1`);
+
+      expect(limited.status).toBe(429);
+      expect(limited.headers.get("retry-after")).toBe("3");
+      expect(version.status).toBe(200);
+      expect(next.status).toBe(404);
+    });
+
+    test("should delay responses until cleared", async () => {
+      registry.injectFailure({ delayMs: 50 });
+
+      const start = Date.now();
+      await fetch(`http://${registry.host}/v2/`);
+      expect(Date.now() - start).toBeGreaterThanOrEqual(45);
+
+      registry.clearFailures();
+      expect((await fetch(`http://${registry.host}/v2/`)).status).toBe(200);
+    });
+  });
+});
@@ -0,0 +1,460 @@
+/**
+ * Failure injected into matching requests of a local registry
+ * A status answers the request with an error instead of handling it, a delay
+ * holds it back first; both can be combined.
+ */
+export interface InjectedFailure {
+  // Matched against "METHOD /path", e.g. /^HEAD \/v2\/.*\/manifests\//; every request when omitted
+  match?: RegExp;
+  // Status to answer with, e.g. 429 or 500
+  status?: number;
+  // Seconds sent as Retry-After with the status
+  retryAfter?: number;
+  // Delay before the request is answered
+  delayMs?: number;
+  // Number of requests affected, all of them when omitted
+  times?: number;
+}
+
+export interface LocalRegistryOptions {
+  // Require bearer tokens from the registry's token endpoint, issued for these credentials
+  auth?: { username: string; password: string };
+}
+
+/**
+ * A request served by a local registry
+ */
+export interface LocalRegistryRequest {
+  method: string;
+  path: string;
+}
+
+interface StoredManifest {
+  bytes: Uint8Array;
+  mediaType: string;
+}
+
+interface StoredRepository {
+  manifests: Map<string, StoredManifest>;
+  tags: Map<string, string>;
+  blobs: Set<string>;
+}
+
+interface UploadSession {
+  repository: string;
+  chunks: Uint8Array[];
+  size: number;
+}
+
+const IMAGE_MANIFEST_TYPE = "application/vnd.oci.image.manifest.v1+json";
+const IMAGE_CONFIG_TYPE = "application/vnd.oci.image.config.v1+json";
+const LAYER_TYPE = "application/vnd.oci.image.layer.v1.tar+gzip";
+const INDEX_TYPES = ["application/vnd.oci.image.index.v1+json", "application/vnd.docker.distribution.manifest.list.v2+json"];
+
+// Repository names may contain slashes, so the operation is matched from the end
+const ROUTE = /^\/v2\/(.+?)\/(?:manifests\/([^/]+)|blobs\/uploads\/([^/]*)|blobs\/([^/]+)|(tags\/list))$/;
+
+/**
+ * Minimal OCI Distribution registry served in-process for integration tests
+ * Supports manifests, blobs, monolithic, chunked and cross-repository mount
+ * uploads and paginated tag lists, optionally behind a bearer token challenge.
+ * Served over plain HTTP on 127.0.0.1, so clients must list host as insecure.
+ */
+export class LocalRegistry {
+  // Requests in the order they arrived, token requests included
+  readonly requests: LocalRegistryRequest[] = [];
+  private server?: ReturnType<typeof Bun.serve>;
+  private repositories = new Map<string, StoredRepository>();
+  private blobs = new Map<string, Uint8Array>();
+  private uploads = new Map<string, UploadSession>();
+  // token -> granted scopes, e.g. "repository:team/app:pull,push"
+  private tokens = new Map<string, Set<string>>();
+  private failures: InjectedFailure[] = [];
+
+  constructor(private options: LocalRegistryOptions = {}) {}
+
+  /**
+   * Start serving on a free port
+   */
+  start(): this {
+    this.server = Bun.serve({
+      hostname: "127.0.0.1",
+      port: 0,
+      fetch: (request) => this.handle(request),
+    });
+    return this;
+  }
+
+  /**
+   * Stop serving, closing open connections
+   */
+  stop(): void {
+    this.server?.stop(true);
+    this.server = undefined;
+  }
+
+  /**
+   * Registry name to use in image references, e.g. 127.0.0.1:41234
+   */
+  get host(): string {
+    if (!this.server) {
+      throw new Error("Local registry is not started");
+    }
+    return `127.0.0.1:${this.server.port}`;
+  }
+
+  /**
+   * Store a single-platform image made of the given layers
+   * Returns the manifest digest
+   */
+  pushImage(repository: string, tag: string, layers: Array<string | Uint8Array> = ["layer"]): string {
+    const descriptor = (mediaType: string, content: string | Uint8Array) => {
+      const bytes = typeof content === "string" ? new TextEncoder().encode(content) : content;
+      const digest = sha256(bytes);
+      this.blobs.set(digest, bytes);
+      this.repository(repository).blobs.add(digest);
+      return { mediaType, digest, size: bytes.length };
+    };
+
+    const config = descriptor(IMAGE_CONFIG_TYPE, JSON.stringify({ architecture: "amd64", os: "linux" }));
+    const manifest = new TextEncoder().encode(JSON.stringify({
+      schemaVersion: 2,
+      mediaType: IMAGE_MANIFEST_TYPE,
+      config,
+      layers: layers.map((layer) => descriptor(LAYER_TYPE, layer)),
+    }));
+    return this.storeManifest(repository, tag, manifest, IMAGE_MANIFEST_TYPE);
+  }
+
+  /**
+   * Whether a manifest is stored under a tag or digest
+   */
+  hasManifest(repository: string, reference: string): boolean {
+    return this.resolveManifest(repository, reference) !== undefined;
+  }
+
+  /**
+   * Fail or delay matching requests until clearFailures is called
+   */
+  injectFailure(failure: InjectedFailure): void {
+    this.failures.push({ ...failure });
+  }
+
+  clearFailures(): void {
+    this.failures = [];
+  }
+
+  private async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    this.requests.push({ method: request.method, path: url.pathname });
+
+    const failure = this.takeFailure(`${request.method} ${url.pathname}`);
+    if (failure?.delayMs) {
+      await Bun.sleep(failure.delayMs);
+    }
+    if (failure?.status) {
+      const headers = failure.retryAfter !== undefined ? { "Retry-After": String(failure.retryAfter) } : undefined;
+      const code = failure.status === 429 ? "TOOMANYREQUESTS" : "UNKNOWN";
+      return registryError(failure.status, code, "injected failure", headers);
+    }
+
+    if (url.pathname === "/token") {
+      return this.issueToken(request, url);
+    }
+    if (url.pathname === "/v2/" || url.pathname === "/v2") {
+      return this.authorize(request) ?? new Response(null, { status: 200 });
+    }
+
+    const route = url.pathname.match(ROUTE);
+    if (!route) {
+      return registryError(404, "NOT_FOUND", `no route for ${url.pathname}`);
+    }
+
+    const [, repository, manifest, upload, blob, tags] = route;
+    const write = !["GET", "HEAD"].includes(request.method);
+    const denied = this.authorize(request, repository, write);
+    if (denied) return denied;
+
+    if (manifest !== undefined) {
+      return write ? this.putManifest(request, repository, manifest) : this.getManifest(request, repository, manifest);
+    }
+    if (upload !== undefined) {
+      return this.handleUpload(request, url, repository, upload);
+    }
+    if (blob !== undefined) {
+      return this.getBlob(request, repository, blob);
+    }
+    if (tags !== undefined) {
+      return this.listTags(url, repository);
+    }
+    return registryError(404, "NOT_FOUND", url.pathname);
+  }
+
+  /**
+   * Consume the first injected failure matching a request
+   */
+  private takeFailure(request: string): InjectedFailure | undefined {
+    const index = this.failures.findIndex((f) => !f.match || f.match.test(request));
+    if (index === -1) return undefined;
+
+    const failure = this.failures[index];
+    if (failure.times !== undefined && --failure.times <= 0) {
+      this.failures.splice(index, 1);
+    }
+    return failure;
+  }
+
+  /**
+   * Check the bearer token of a request against the scope it needs
+   * Returns the challenge response when the request is not authorized
+   */
+  private authorize(request: Request, repository?: string, write = false): Response | undefined {
+    if (!this.options.auth) return undefined;
+
+    const token = request.headers.get("authorization")?.match(/^Bearer (.+)$/)?.[1];
+    const granted = token ? this.tokens.get(token) : undefined;
+    const action = write ? "push" : "pull";
+    const scope = repository ? `repository:${repository}:${action}` : undefined;
+    if (granted && (!repository || hasScope(granted, repository, action))) {
+      return undefined;
+    }
+
+    const challenge = `Bearer realm="http://${this.host}/token",service="local-registry"${scope ? `,scope="${scope}"` : ""}`;
+    return registryError(401, "UNAUTHORIZED", "authentication required", { "WWW-Authenticate": challenge });
+  }
+
+  /**
+   * Token endpoint, issuing tokens for the requested scopes to valid basic credentials
+   */
+  private issueToken(request: Request, url: URL): Response {
+    const { username, password } = this.options.auth ?? { username: "", password: "" };
+    if (request.headers.get("authorization") !== `Basic ${btoa(`${username}:${password}`)}`) {
+      return registryError(401, "UNAUTHORIZED", "invalid credentials");
+    }
+
+    const token = crypto.randomUUID();
+    this.tokens.set(token, new Set(url.searchParams.getAll("scope")));
+    return Response.json({ token, expires_in: 300, issued_at: new Date().toISOString() });
+  }
+
+  private getManifest(request: Request, repository: string, reference: string): Response {
+    const digest = this.resolveManifest(repository, reference);
+    if (!digest) {
+      return registryError(404, "MANIFEST_UNKNOWN", `manifest unknown: ${repository}:${reference}`);
+    }
+
+    const manifest = this.repositories.get(repository)!.manifests.get(digest)!;
+    const headers = {
+      "Content-Type": manifest.mediaType,
+      "Content-Length": String(manifest.bytes.length),
+      "Docker-Content-Digest": digest,
+    };
+    return new Response(request.method === "HEAD" ? null : manifest.bytes, { headers });
+  }
+
+  private async putManifest(request: Request, repository: string, reference: string): Promise<Response> {
+    const bytes = new Uint8Array(await request.arrayBuffer());
+    const digest = sha256(bytes);
+    if (reference.startsWith("sha256:") && reference !== digest) {
+      return registryError(400, "DIGEST_INVALID", `manifest digest ${digest} does not match ${reference}`);
+    }
+
+    // Everything the manifest references must already be in the repository
+    const document = JSON.parse(new TextDecoder().decode(bytes)) as {
+      mediaType?: string;
+      config?: { digest: string };
+      layers?: Array<{ digest: string }>;
+      manifests?: Array<{ digest: string }>;
+    };
+    const mediaType = request.headers.get("content-type")?.split(";")[0] || document.mediaType || IMAGE_MANIFEST_TYPE;
+    const stored = this.repository(repository);
+    if (INDEX_TYPES.includes(mediaType)) {
+      const missing = (document.manifests || []).find((m) => !stored.manifests.has(m.digest));
+      if (missing) return registryError(400, "MANIFEST_BLOB_UNKNOWN", `manifest ${missing.digest} unknown`);
+    } else {
+      const missing = [document.config, ...(document.layers || [])].find((b) => b && !stored.blobs.has(b.digest));
+      if (missing) return registryError(400, "MANIFEST_BLOB_UNKNOWN", `blob ${missing.digest} unknown`);
+    }
+
+    this.storeManifest(repository, reference, bytes, mediaType);
+    return new Response(null, {
+      status: 201,
+      headers: { Location: `/v2/${repository}/manifests/${digest}`, "Docker-Content-Digest": digest },
+    });
+  }
+
+  private getBlob(request: Request, repository: string, digest: string): Response {
+    const bytes = this.repositories.get(repository)?.blobs.has(digest) ? this.blobs.get(digest) : undefined;
+    if (!bytes) {
+      return registryError(404, "BLOB_UNKNOWN", `blob unknown: ${digest}`);
+    }
+
+    const headers = {
+      "Content-Type": "application/octet-stream",
+      "Content-Length": String(bytes.length),
+      "Docker-Content-Digest": digest,
+    };
+    return new Response(request.method === "HEAD" ? null : bytes, { headers });
+  }
+
+  /**
+   * Blob uploads: POST starts a session (or mounts, or uploads monolithically
+   * with ?digest=), PATCH appends a chunk and PUT completes the session
+   */
+  private async handleUpload(request: Request, url: URL, repository: string, id: string): Promise<Response> {
+    const digest = url.searchParams.get("digest");
+
+    if (request.method === "POST") {
+      const mount = url.searchParams.get("mount");
+      const from = url.searchParams.get("from");
+      if (mount && from && this.repositories.get(from)?.blobs.has(mount) && this.canMount(request, from)) {
+        this.repository(repository).blobs.add(mount);
+        return blobCreated(repository, mount);
+      }
+      if (digest) {
+        return this.completeUpload(repository, [new Uint8Array(await request.arrayBuffer())], digest);
+      }
+
+      const session = crypto.randomUUID();
+      this.uploads.set(session, { repository, chunks: [], size: 0 });
+      return uploadAccepted(repository, session, 0);
+    }
+
+    const upload = this.uploads.get(id);
+    if (!upload || upload.repository !== repository) {
+      return registryError(404, "BLOB_UPLOAD_UNKNOWN", `upload ${id} unknown`);
+    }
+
+    const chunk = new Uint8Array(await request.arrayBuffer());
+    if (request.method === "PATCH") {
+      const range = request.headers.get("content-range")?.match(/^(\d+)-(\d+)$/);
+      if (range && parseInt(range[1], 10) !== upload.size) {
+        return registryError(416, "BLOB_UPLOAD_INVALID", `expected chunk at offset ${upload.size}`);
+      }
+      upload.chunks.push(chunk);
+      upload.size += chunk.length;
+      return uploadAccepted(repository, id, upload.size);
+    }
+
+    if (request.method === "PUT" && digest) {
+      this.uploads.delete(id);
+      return this.completeUpload(repository, [...upload.chunks, chunk], digest);
+    }
+    return registryError(405, "UNSUPPORTED", `${request.method} is not supported on uploads`);
+  }
+
+  /**
+   * Whether the request's token may pull from the mount source
+   */
+  private canMount(request: Request, from: string): boolean {
+    if (!this.options.auth) return true;
+    const token = request.headers.get("authorization")?.match(/^Bearer (.+)$/)?.[1];
+    const granted = token ? this.tokens.get(token) : undefined;
+    return !!granted && hasScope(granted, from, "pull");
+  }
+
+  private completeUpload(repository: string, chunks: Uint8Array[], digest: string): Response {
+    const bytes = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+      bytes.set(chunk, offset);
+      offset += chunk.length;
+    }
+
+    if (sha256(bytes) !== digest) {
+      return registryError(400, "DIGEST_INVALID", `uploaded content does not match ${digest}`);
+    }
+    this.blobs.set(digest, bytes);
+    this.repository(repository).blobs.add(digest);
+    return blobCreated(repository, digest);
+  }
+
+  /**
+   * Tag list, paginated with ?n= and ?last= and a Link header to the next page
+   */
+  private listTags(url: URL, repository: string): Response {
+    const stored = this.repositories.get(repository);
+    if (!stored) {
+      return registryError(404, "NAME_UNKNOWN", `repository name not known to registry: ${repository}`);
+    }
+
+    const last = url.searchParams.get("last");
+    const all = [...stored.tags.keys()].sort().filter((tag) => !last || tag > last);
+    const n = url.searchParams.has("n") ? parseInt(url.searchParams.get("n")!, 10) : all.length;
+    const tags = all.slice(0, n);
+
+    const headers: Record<string, string> = {};
+    if (all.length > n && tags.length > 0) {
+      headers.Link = `</v2/${repository}/tags/list?n=${n}&last=${encodeURIComponent(tags[tags.length - 1])}>; rel="next"`;
+    }
+    return Response.json({ name: repository, tags }, { headers });
+  }
+
+  private storeManifest(repository: string, reference: string, bytes: Uint8Array, mediaType: string): string {
+    const digest = sha256(bytes);
+    const stored = this.repository(repository);
+    stored.manifests.set(digest, { bytes, mediaType });
+    if (!reference.startsWith("sha256:")) {
+      stored.tags.set(reference, digest);
+    }
+    return digest;
+  }
+
+  private resolveManifest(repository: string, reference: string): string | undefined {
+    const stored = this.repositories.get(repository);
+    const digest = reference.startsWith("sha256:") ? reference : stored?.tags.get(reference);
+    return digest && stored?.manifests.has(digest) ? digest : undefined;
+  }
+
+  private repository(name: string): StoredRepository {
+    let stored = this.repositories.get(name);
+    if (!stored) {
+      stored = { manifests: new Map(), tags: new Map(), blobs: new Set() };
+      this.repositories.set(name, stored);
+    }
+    return stored;
+  }
+}
+
+/**
+ * Whether granted scopes allow an action on a repository
+ * Scopes look like "repository:team/app:pull,push"
+ */
+function hasScope(granted: Set<string>, repository: string, action: string): boolean {
+  for (const scope of granted) {
+    const [type, name, actions] = scope.split(":");
+    if (type === "repository" && name === repository && actions?.split(",").includes(action)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function sha256(bytes: Uint8Array): string {
+  return `sha256:${new Bun.CryptoHasher("sha256").update(bytes).digest("hex")}`;
+}
+
+/**
+ * Error response in the Distribution API format
+ */
+function registryError(status: number, code: string, message: string, headers?: Record<string, string>): Response {
+  return Response.json({ errors: [{ code, message }] }, { status, headers });
+}
+
+function blobCreated(repository: string, digest: string): Response {
+  return new Response(null, {
+    status: 201,
+    headers: { Location: `/v2/${repository}/blobs/${digest}`, "Docker-Content-Digest": digest },
+  });
+}
+
+function uploadAccepted(repository: string, session: string, size: number): Response {
+  return new Response(null, {
+    status: 202,
+    headers: {
+      Location: `/v2/${repository}/blobs/uploads/${session}`,
+      Range: `0-${Math.max(size - 1, 0)}`,
+      "Docker-Upload-UUID": session,
+    },
+  });
+}
@@ -25,6 +25,7 @@ export interface AdmissionReviewRequest {
       version: string;
       resource: string;
     };
+    subResource?: string; // e.g. "status", "scale" or "ephemeralcontainers"
     name?: string;
     namespace: string;
     operation: "CREATE" | "UPDATE" | "DELETE" | "CONNECT";
@@ -46,14 +47,45 @@ export interface AdmissionReviewResponse {
   response: {
     uid: string;
     allowed: boolean;
-    status?: {
-      code: number;
-      message: string;
-    };
+    status?: AdmissionStatus;
     warnings?: string[];
+    patchType?: "JSONPatch";
+    patch?: string; // base64 encoded JSON Patch
+    auditAnnotations?: Record<string, string>; // Keys are prefixed with the webhook name by the API server
+  };
+}
+
+// Subset of metav1.Status returned with denied admission responses
+export interface AdmissionStatus {
+  code: number;
+  message: string;
+  reason?: string; // e.g. "Forbidden"
+  details?: {
+    causes?: StatusCause[];
   };
 }
 
+// Describes a single failing field, e.g. { field: "spec.containers[0].image", ... }
+export interface StatusCause {
+  reason?: "FieldValueNotFound" | "FieldValueForbidden" | "FieldValueInvalid";
+  message?: string;
+  field?: string;
+}
+
+export interface JsonPatchOperation {
+  op: "add" | "remove" | "replace";
+  path: string;
+  value?: unknown;
+}
+
+// Location of a container image within a Kubernetes object
+export interface ContainerImageLocation {
+  image: string;
+  containerName: string;
+  // Path segments from the object root, e.g. ["spec", "containers", 0, "image"]
+  path: Array<string | number>;
+}
+
 export interface KubernetesObject {
   apiVersion: string;
   kind: string;
@@ -12,6 +12,7 @@ export interface ImageReference {
   tag: string;
   digest?: string;
   fullImage: string;
+  tagDefaulted?: boolean; // True when no tag was given and "latest" was assumed
 }
 
 export interface ImageValidationResult {
@@ -19,6 +20,9 @@ export interface ImageValidationResult {
   exists: boolean;
   error?: string;
   registry: string;
+  digest?: string; // Resolved manifest digest when the image exists
+  cached?: boolean; // Served from a cached lookup instead of the registry
+  circuitOpen?: boolean; // Not checked because the registry's circuit breaker is open
 }
 
 export interface DockerConfigJson {
@@ -0,0 +1,46 @@
+import { describe, test, expect, afterEach } from "bun:test";
+import { loadJsonConfig, type JsonConfigLoader } from "./config-file";
+import { unlinkSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+describe("loadJsonConfig", () => {
+  const path = join(tmpdir(), `config-file-${process.pid}.json`);
+  const loader: JsonConfigLoader<{ rules?: string[] }, string[]> = {
+    name: "test rules",
+    build: (config) => {
+      if (!Array.isArray(config.rules)) throw new Error("rules must be a list");
+      return config.rules;
+    },
+  };
+
+  afterEach(() => {
+    try {
+      unlinkSync(path);
+    } catch {
+      // File may not exist
+    }
+  });
+
+  test("should return undefined when file does not exist", async () => {
+    expect(await loadJsonConfig(path, loader)).toBeUndefined();
+  });
+
+  test("should build the config from file", async () => {
+    await Bun.write(path, JSON.stringify({ rules: ["a", "b"] }));
+
+    expect(await loadJsonConfig(path, loader)).toEqual(["a", "b"]);
+  });
+
+  test("should throw on invalid JSON", async () => {
+    await Bun.write(path, "not json");
+
+    await expect(loadJsonConfig(path, loader)).rejects.toThrow(`Failed to parse test rules ${path}`);
+  });
+
+  test("should throw when the config is rejected", async () => {
+    await Bun.write(path, JSON.stringify({ rules: "a" }));
+
+    await expect(loadJsonConfig(path, loader)).rejects.toThrow("rules must be a list");
+  });
+});
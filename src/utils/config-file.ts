@@ -0,0 +1,37 @@
+import { logger } from "./logger";
+
+/**
+ * How an optional JSON config file becomes its runtime form
+ */
+export interface JsonConfigLoader<C, T> {
+  // Used in log and error messages, e.g. "registry policy"
+  name: string;
+  // Validates the parsed file and builds the runtime form; throws on invalid config
+  build: (config: C) => T;
+  // Details logged once the file is loaded
+  describe?: (config: C, value: T) => Record<string, unknown>;
+}
+
+/**
+ * Load an optional JSON config file, e.g. a policy mounted from a ConfigMap
+ * Returns undefined when the file does not exist; throws on invalid JSON or
+ * when build rejects the config
+ */
+export async function loadJsonConfig<C, T>(path: string, loader: JsonConfigLoader<C, T>): Promise<T | undefined> {
+  const file = Bun.file(path);
+  if (!(await file.exists())) {
+    logger.debug(`No ${loader.name} file found`, { path });
+    return undefined;
+  }
+
+  let config: C;
+  try {
+    config = JSON.parse(await file.text());
+  } catch (error) {
+    throw new Error(`Failed to parse ${loader.name} ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const value = loader.build(config);
+  logger.info(`Loaded ${loader.name}`, { path, ...loader.describe?.(config, value) });
+  return value;
+}
@@ -1,5 +1,5 @@
 import { describe, test, expect } from "bun:test";
-import { parseImageReference, getRegistryApiUrl, parseWwwAuthenticate } from "./image-parser";
+import { parseImageReference, getRegistryApiUrl, parseWwwAuthenticate, pinImageDigest, formatImageReference } from "./image-parser";
 
 describe("parseImageReference", () => {
   test("should parse simple image name", () => {
@@ -127,3 +127,44 @@ describe("parseWwwAuthenticate", () => {
     expect(result?.realm).toBe("https://auth.example.com/token");
   });
 });
+
+describe("parseImageReference tag defaulting", () => {
+  test("should flag images without a tag", () => {
+    expect(parseImageReference("nginx").tagDefaulted).toBe(true);
+    expect(parseImageReference("localhost:5000/app").tagDefaulted).toBe(true);
+  });
+
+  test("should not flag explicit tags or digests", () => {
+    expect(parseImageReference("nginx:latest").tagDefaulted).toBe(false);
+    expect(parseImageReference("nginx@sha256:abc").tagDefaulted).toBe(false);
+  });
+});
+
+describe("pinImageDigest", () => {
+  test("should replace tag with digest", () => {
+    expect(pinImageDigest("nginx:1.25", "sha256:abc")).toBe("nginx@sha256:abc");
+  });
+
+  test("should append digest to untagged image", () => {
+    expect(pinImageDigest("ghcr.io/org/app", "sha256:abc")).toBe("ghcr.io/org/app@sha256:abc");
+  });
+
+  test("should keep registry port", () => {
+    expect(pinImageDigest("localhost:5000/app:v1", "sha256:abc")).toBe("localhost:5000/app@sha256:abc");
+    expect(pinImageDigest("localhost:5000/app", "sha256:abc")).toBe("localhost:5000/app@sha256:abc");
+  });
+
+  test("should replace existing digest", () => {
+    expect(pinImageDigest("app:v1@sha256:old", "sha256:new")).toBe("app@sha256:new");
+  });
+});
+
+describe("formatImageReference", () => {
+  test("should include the normalized registry and repository", () => {
+    expect(formatImageReference(parseImageReference("nginx"))).toBe("registry-1.docker.io/library/nginx:latest");
+  });
+
+  test("should format digest references by digest", () => {
+    expect(formatImageReference(parseImageReference("ghcr.io/org/app@sha256:abc"))).toBe("ghcr.io/org/app@sha256:abc");
+  });
+});
@@ -23,6 +23,7 @@ export function parseImageReference(image: string): ImageReference {
   let registry = "docker.io";
   let repository = image;
   let tag = "latest";
+  let tagDefaulted = true;
   let digest: string | undefined;
 
   // Check for digest
@@ -31,6 +32,7 @@ export function parseImageReference(image: string): ImageReference {
     repository = repoWithoutDigest;
     digest = digestPart;
     tag = ""; // When digest is present, tag is ignored
+    tagDefaulted = false;
   }
 
   // Check for tag (only if no digest)
@@ -42,6 +44,7 @@ export function parseImageReference(image: string): ImageReference {
     // If there's a / after the colon, it's a port, not a tag
     if (!potentialTag.includes("/")) {
       tag = potentialTag;
+      tagDefaulted = false;
       repository = repository.substring(0, lastColonIndex);
     }
   }
@@ -75,6 +78,7 @@ export function parseImageReference(image: string): ImageReference {
     tag,
     digest,
     fullImage: image,
+    tagDefaulted,
   };
   
   logger.debug("Parsed image reference", { registry: result.registry, repository: result.repository, tag: result.tag, digest: result.digest });
@@ -82,6 +86,49 @@ export function parseImageReference(image: string): ImageReference {
   return result;
 }
 
+/**
+ * Get the registry name as users write it, e.g. "docker.io" for Docker Hub
+ */
+export function getDisplayRegistry(registry: string): string {
+  if (registry === "registry-1.docker.io" || registry === "index.docker.io") {
+    return "docker.io";
+  }
+  return registry;
+}
+
+/**
+ * Get the normalized "registry/repository" name of an image
+ * e.g. nginx:1.25 -> docker.io/library/nginx
+ */
+export function getImageName(image: string): string {
+  const imageRef = parseImageReference(image);
+  return `${getDisplayRegistry(imageRef.registry)}/${imageRef.repository}`;
+}
+
+/**
+ * Replace the tag of an image reference with a manifest digest
+ * e.g. nginx:1.25 + sha256:abc -> nginx@sha256:abc
+ */
+export function pinImageDigest(image: string, digest: string): string {
+  const name = image.split("@")[0];
+  const lastSlashIndex = name.lastIndexOf("/");
+  const lastColonIndex = name.lastIndexOf(":");
+
+  // A colon after the last slash is a tag, before it a registry port
+  const repository = lastColonIndex > lastSlashIndex ? name.substring(0, lastColonIndex) : name;
+  return `${repository}@${digest}`;
+}
+
+/**
+ * Format a parsed reference with its full registry and repository path
+ * e.g. registry-1.docker.io/library/nginx:1.25, or by digest when it has one
+ */
+export function formatImageReference(imageRef: ImageReference): string {
+  return imageRef.digest
+    ? `${imageRef.registry}/${imageRef.repository}@${imageRef.digest}`
+    : `${imageRef.registry}/${imageRef.repository}:${imageRef.tag || "latest"}`;
+}
+
 /**
  * Get the registry API URL
  */
@@ -1,3 +1,9 @@
 export * from "./image-parser";
 export * from "./credentials";
 export * from "./logger";
+export * from "./patterns";
+export * from "./target-layout";
+export * from "./registry-errors";
+export * from "./single-flight";
+export * from "./retry";
+export * from "./config-file";
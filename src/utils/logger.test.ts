@@ -21,6 +21,7 @@ describe("Logger", () => {
     // Reset logger to default state
     logger.setDebugEnabled(false);
     logger.setJsonFormat(false);
+    logger.setSilent(false);
   });
 
   afterEach(() => {
@@ -279,4 +280,24 @@ describe("Logger", () => {
       expect(loggedMessage).toContain("Plain text message");
     });
   });
+
+  describe("Silent mode", () => {
+    test("should suppress all output until restored", () => {
+      logger.setDebugEnabled(true);
+      logger.setSilent(true);
+      logger.debug("Hidden debug");
+      logger.info("Hidden info");
+      logger.warn("Hidden warning");
+      logger.error("Hidden error", new Error("boom"));
+
+      expect(consoleSpy.debug).not.toHaveBeenCalled();
+      expect(consoleSpy.log).not.toHaveBeenCalled();
+      expect(consoleSpy.warn).not.toHaveBeenCalled();
+      expect(consoleSpy.error).not.toHaveBeenCalled();
+
+      logger.setSilent(false);
+      logger.info("Visible info");
+      expect(consoleSpy.log).toHaveBeenCalledTimes(1);
+    });
+  });
 });
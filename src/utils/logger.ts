@@ -16,6 +16,7 @@ interface LogContext {
 class Logger {
   private debugEnabled: boolean;
   private jsonFormat: boolean;
+  private silent = false;
 
   constructor(debugEnabled = false, jsonFormat = false) {
     this.debugEnabled = debugEnabled;
@@ -36,6 +37,13 @@ class Logger {
     this.jsonFormat = enabled;
   }
 
+  /**
+   * Suppress or restore all log output
+   */
+  setSilent(enabled: boolean): void {
+    this.silent = enabled;
+  }
+
   /**
    * Format log message with timestamp, level, and context
    */
@@ -64,7 +72,7 @@ class Logger {
    * Log debug message (only if debug is enabled)
    */
   debug(message: string, context?: LogContext): void {
-    if (this.debugEnabled) {
+    if (this.debugEnabled && !this.silent) {
       console.debug(this.formatMessage(LogLevel.DEBUG, message, context));
     }
   }
@@ -73,6 +81,7 @@ class Logger {
    * Log info message
    */
   info(message: string, context?: LogContext): void {
+    if (this.silent) return;
     console.log(this.formatMessage(LogLevel.INFO, message, context));
   }
 
@@ -80,6 +89,7 @@ class Logger {
    * Log warning message
    */
   warn(message: string, context?: LogContext): void {
+    if (this.silent) return;
     console.warn(this.formatMessage(LogLevel.WARN, message, context));
   }
 
@@ -87,6 +97,7 @@ class Logger {
    * Log error message
    */
   error(message: string, error?: Error | unknown, context?: LogContext): void {
+    if (this.silent) return;
     const errorContext = {
       ...context,
       ...(error instanceof Error
@@ -0,0 +1,58 @@
+import { describe, test, expect } from "bun:test";
+import { globToRegExp, matchesGlob, matchesAnyGlob, parseList } from "./patterns";
+
+describe("matchesGlob", () => {
+  test("should match exact values", () => {
+    expect(matchesGlob("production", "production")).toBe(true);
+    expect(matchesGlob("production", "prod")).toBe(false);
+  });
+
+  test("should match wildcards without separator", () => {
+    expect(matchesGlob("team-a-prod", "team-*")).toBe(true);
+    expect(matchesGlob("team-a-prod", "*-prod")).toBe(true);
+    expect(matchesGlob("staging", "team-*")).toBe(false);
+  });
+
+  test("should not cross separator with single star", () => {
+    expect(matchesGlob("library/nginx", "library/*", "/")).toBe(true);
+    expect(matchesGlob("library/nginx/extra", "library/*", "/")).toBe(false);
+  });
+
+  test("should cross separator with double star", () => {
+    expect(matchesGlob("org/team/app", "org/**", "/")).toBe(true);
+  });
+
+  test("should match single characters with question mark", () => {
+    expect(matchesGlob("ns1", "ns?")).toBe(true);
+    expect(matchesGlob("ns12", "ns?")).toBe(false);
+  });
+
+  test("should escape regex characters", () => {
+    expect(matchesGlob("docker.io", "docker.io")).toBe(true);
+    expect(matchesGlob("dockerxio", "docker.io")).toBe(false);
+  });
+});
+
+describe("matchesAnyGlob", () => {
+  test("should match if any pattern matches", () => {
+    expect(matchesAnyGlob("dev-1", ["prod-*", "dev-*"])).toBe(true);
+    expect(matchesAnyGlob("qa", ["prod-*", "dev-*"])).toBe(false);
+    expect(matchesAnyGlob("qa", [])).toBe(false);
+  });
+});
+
+describe("globToRegExp", () => {
+  test("should return anchored expressions", () => {
+    expect(globToRegExp("a*").source).toBe("^a.*$");
+  });
+});
+
+describe("parseList", () => {
+  test("should split and trim comma separated values", () => {
+    expect(parseList(" a, b ,,c ")).toEqual(["a", "b", "c"]);
+  });
+
+  test("should return empty list for undefined", () => {
+    expect(parseList(undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Glob pattern matching used for namespace selectors and image rules
+ *
+ * Supported syntax:
+ * - `*` matches any characters except the separator (if one is given)
+ * - `**` matches any characters including the separator
+ * - `?` matches a single character
+ */
+
+const regexCache = new Map<string, RegExp>();
+
+/**
+ * Convert a glob pattern into an anchored regular expression
+ */
+export function globToRegExp(pattern: string, separator?: string): RegExp {
+  const cacheKey = `${separator ?? ""}\u0000${pattern}`;
+  const cached = regexCache.get(cacheKey);
+  if (cached) return cached;
+
+  const single = separator ? `[^${escapeRegExp(separator)}]*` : ".*";
+  let source = "";
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*") {
+      if (pattern[i + 1] === "*") {
+        source += ".*";
+        i++;
+      } else {
+        source += single;
+      }
+    } else if (char === "?") {
+      source += ".";
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  const regex = new RegExp(`^${source}$`);
+  regexCache.set(cacheKey, regex);
+  return regex;
+}
+
+/**
+ * Check if a value matches a glob pattern
+ */
+export function matchesGlob(value: string, pattern: string, separator?: string): boolean {
+  return globToRegExp(pattern, separator).test(value);
+}
+
+/**
+ * Check if a value matches any of the given glob patterns
+ */
+export function matchesAnyGlob(value: string, patterns: string[], separator?: string): boolean {
+  return patterns.some((pattern) => matchesGlob(value, pattern, separator));
+}
+
+/**
+ * Parse a comma separated list from an environment variable
+ */
+export function parseList(value: string | undefined): string[] {
+  return value?.split(",").map((item) => item.trim()).filter(Boolean) || [];
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
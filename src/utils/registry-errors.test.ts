@@ -0,0 +1,86 @@
+import { describe, test, expect } from "bun:test";
+import { classifyRegistryError, classifyRetry, parseRetryAfter } from "./registry-errors";
+
+describe("classifyRegistryError", () => {
+  test("should classify timeouts", () => {
+    expect(classifyRegistryError("Request to ghcr.io timed out after 240000ms")).toBe("timeout");
+    expect(classifyRegistryError("dial tcp 10.0.0.1:443: i/o timeout")).toBe("timeout");
+    expect(classifyRegistryError("Admission deadline exceeded")).toBe("timeout");
+  });
+
+  test("should classify authentication errors", () => {
+    expect(classifyRegistryError("unauthorized: authentication required")).toBe("auth");
+    expect(classifyRegistryError("requested access to the resource is denied")).toBe("auth");
+  });
+
+  test("should classify missing manifests", () => {
+    expect(classifyRegistryError("manifest unknown: manifest unknown")).toBe("not-found");
+  });
+
+  test("should classify network errors", () => {
+    expect(classifyRegistryError("dial tcp: lookup registry.local: no such host")).toBe("network");
+    expect(classifyRegistryError("connect: connection refused")).toBe("network");
+    expect(classifyRegistryError("x509: certificate signed by unknown authority")).toBe("network");
+  });
+
+  test("should classify registry server errors as network errors", () => {
+    expect(classifyRegistryError("received unexpected HTTP status: 500 Internal Server Error")).toBe("network");
+    expect(classifyRegistryError("Copy failed: 507 Insufficient Storage")).toBe("network");
+    expect(classifyRegistryError("received unexpected HTTP status: 503 Service Unavailable")).toBe("network");
+  });
+
+  test("should treat anything else as internal", () => {
+    expect(classifyRegistryError("unexpected end of JSON input")).toBe("internal");
+  });
+});
+
+describe("classifyRetry", () => {
+  test("should retry transient failures", () => {
+    expect(classifyRetry("received unexpected HTTP status: 502 Bad Gateway")).toEqual({ retryable: true, reason: "server-error" });
+    expect(classifyRetry("read tcp 10.0.0.1:443: read: connection reset by peer").reason).toBe("connection-reset");
+    expect(classifyRetry("net/http: TLS handshake timeout").reason).toBe("tls-handshake-timeout");
+  });
+
+  test("should honour Retry-After on rate limits", () => {
+    expect(classifyRetry("toomanyrequests: 429 Too Many Requests, Retry-After: 7")).toEqual({
+      retryable: true,
+      reason: "rate-limited",
+      retryAfterMs: 7000,
+    });
+  });
+
+  test("should honour Retry-After dates on rate limits", () => {
+    const retryAt = new Date(Date.now() + 60000).toUTCString();
+    const { retryAfterMs } = classifyRetry(`429 Too Many Requests, Retry-After: ${retryAt}`);
+
+    expect(retryAfterMs).toBeGreaterThan(50000);
+    expect(retryAfterMs).toBeLessThanOrEqual(60000);
+  });
+
+  test("should ignore unparseable Retry-After values", () => {
+    expect(classifyRetry("429 Too Many Requests, Retry-After: soon").retryAfterMs).toBeUndefined();
+  });
+
+  test("should not retry permanent failures", () => {
+    expect(classifyRetry("manifest unknown: manifest unknown").retryable).toBe(false);
+    expect(classifyRetry("unauthorized: authentication required").retryable).toBe(false);
+    expect(classifyRetry("unexpected end of JSON input").retryable).toBe(false);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  const now = Date.parse("Wed, 21 Oct 2015 07:28:00 GMT");
+
+  test("should parse delay seconds", () => {
+    expect(parseRetryAfter("120", now)).toBe(120000);
+  });
+
+  test("should parse HTTP dates relative to now", () => {
+    expect(parseRetryAfter("Wed, 21 Oct 2015 07:28:30 GMT", now)).toBe(30000);
+    expect(parseRetryAfter("Wed, 21 Oct 2015 07:27:00 GMT", now)).toBe(0);
+  });
+
+  test("should reject unparseable values", () => {
+    expect(parseRetryAfter("soon", now)).toBeUndefined();
+  });
+});
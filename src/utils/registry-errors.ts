@@ -0,0 +1,92 @@
+/**
+ * Classes of registry and webhook failures, used to decide fail-open or fail-closed
+ * - timeout: the registry or the admission deadline took too long
+ * - auth: missing or rejected credentials
+ * - network: DNS, connection, TLS and registry server (5xx) failures
+ * - not-found: the manifest does not exist
+ * - internal: any other registry or clone error
+ * - webhook: unexpected errors in the webhook itself
+ */
+export type ErrorClass = "timeout" | "auth" | "network" | "not-found" | "internal" | "webhook";
+
+export const ERROR_CLASSES: ErrorClass[] = ["timeout", "auth", "network", "not-found", "internal", "webhook"];
+
+// Checked in order, so "i/o timeout" counts as a timeout rather than a network error
+const ERROR_PATTERNS: Array<[ErrorClass, RegExp]> = [
+  ["timeout", /timed out|timeout|deadline exceeded/i],
+  ["auth", /unauthorized|authentication required|authentication failed|denied|forbidden|\b40[13]\b/i],
+  ["not-found", /manifest unknown|not found|name unknown/i],
+  ["network", /circuit breaker open|connection ?refused|connection reset|econnrefused|econnreset|enotfound|connectionclosed|failedtoopensocket|no such host|network (is )?unreachable|tls|x509|certificate|\beof\b|\b5\d\d\b|bad gateway|service unavailable|internal server error|insufficient storage/i],
+];
+
+/**
+ * Classify a registry error message (skopeo stderr or a client error)
+ */
+export function classifyRegistryError(message: string): ErrorClass {
+  for (const [errorClass, pattern] of ERROR_PATTERNS) {
+    if (pattern.test(message)) {
+      return errorClass;
+    }
+  }
+  return "internal";
+}
+
+/**
+ * Whether a failed registry operation is worth retrying
+ * retryAfterMs is set when the registry asked for a delay (429 with Retry-After)
+ */
+export interface RetryClassification {
+  retryable: boolean;
+  reason: string;
+  retryAfterMs?: number;
+}
+
+// Permanent failures are checked first: retrying a missing manifest or rejected credentials never helps
+const PERMANENT_PATTERNS: Array<[string, RegExp]> = [
+  ["not-found", /manifest unknown|name unknown|not found/i],
+  ["auth", /unauthorized|authentication required|denied|forbidden|\b40[13]\b/i],
+];
+
+const RETRYABLE_PATTERNS: Array<[string, RegExp]> = [
+  ["rate-limited", /\b429\b|too many requests|toomanyrequests/i],
+  ["server-error", /\b5\d\d\b|bad gateway|service unavailable|gateway time-?out|internal server error/i],
+  ["connection-reset", /connection reset|econnreset|connectionclosed|broken pipe|unexpected eof/i],
+  ["tls-handshake-timeout", /tls handshake timeout/i],
+];
+
+/**
+ * Classify a registry error message for the retry policy
+ * Anything not known to be transient is treated as permanent
+ */
+export function classifyRetry(message: string): RetryClassification {
+  for (const [reason, pattern] of PERMANENT_PATTERNS) {
+    if (pattern.test(message)) {
+      return { retryable: false, reason };
+    }
+  }
+
+  for (const [reason, pattern] of RETRYABLE_PATTERNS) {
+    if (pattern.test(message)) {
+      const retryAfter = message.match(/retry-after:?\s*(\d+|\w{3}, \d{1,2} \w{3} \d{4} \d{2}:\d{2}:\d{2} GMT)/i);
+      return {
+        retryable: true,
+        reason,
+        retryAfterMs: retryAfter ? parseRetryAfter(retryAfter[1]) : undefined,
+      };
+    }
+  }
+
+  return { retryable: false, reason: "permanent" };
+}
+
+/**
+ * Convert a Retry-After value, either delay-seconds or an HTTP date, to a delay
+ * Returns undefined for values that cannot be parsed; dates in the past mean no delay
+ */
+export function parseRetryAfter(value: string, now: number = Date.now()): number | undefined {
+  if (/^\d+$/.test(value)) {
+    return parseInt(value, 10) * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
@@ -0,0 +1,79 @@
+import { describe, test, expect } from "bun:test";
+import { withRetry, retryDelay, type RetryOptions } from "./retry";
+
+const options: RetryOptions = { attempts: 3, baseDelayMs: 1, maxDelayMs: 5 };
+const retryable = () => ({ retryable: true, reason: "server-error" });
+const permanent = () => ({ retryable: false, reason: "permanent" });
+
+describe("retryDelay", () => {
+  test("should double the backoff with jitter in the upper half", () => {
+    const opts: RetryOptions = { attempts: 5, baseDelayMs: 100, maxDelayMs: 1000 };
+    expect(retryDelay(1, opts, undefined, () => 0)).toBe(50);
+    expect(retryDelay(1, opts, undefined, () => 1)).toBe(100);
+    expect(retryDelay(3, opts, undefined, () => 1)).toBe(400);
+  });
+
+  test("should cap the backoff and Retry-After at the maximum", () => {
+    const opts: RetryOptions = { attempts: 5, baseDelayMs: 100, maxDelayMs: 1000 };
+    expect(retryDelay(10, opts, undefined, () => 1)).toBe(1000);
+    expect(retryDelay(1, opts, 300)).toBe(300);
+    expect(retryDelay(1, opts, 60000)).toBe(1000);
+  });
+});
+
+describe("withRetry", () => {
+  test("should retry retryable failures until success", async () => {
+    let calls = 0;
+    const retries: string[] = [];
+
+    const result = await withRetry(
+      async () => {
+        if (++calls < 3) throw new Error("502 Bad Gateway");
+        return "ok";
+      },
+      options,
+      retryable,
+      (retry, reason) => retries.push(`${retry}:${reason}`)
+    );
+
+    expect(result).toBe("ok");
+    expect(retries).toEqual(["1:server-error", "2:server-error"]);
+  });
+
+  test("should give up after the configured attempts", async () => {
+    let calls = 0;
+    const run = withRetry(async () => {
+      calls++;
+      throw new Error("502 Bad Gateway");
+    }, options, retryable);
+
+    await expect(run).rejects.toThrow("502 Bad Gateway");
+    expect(calls).toBe(3);
+  });
+
+  test("should not retry permanent failures", async () => {
+    let calls = 0;
+    const run = withRetry(async () => {
+      calls++;
+      throw new Error("manifest unknown");
+    }, options, permanent);
+
+    await expect(run).rejects.toThrow("manifest unknown");
+    expect(calls).toBe(1);
+  });
+
+  test("should stop waiting when the signal aborts", async () => {
+    const controller = new AbortController();
+    const run = withRetry(
+      async () => {
+        throw new Error("503");
+      },
+      { attempts: 3, baseDelayMs: 60000, maxDelayMs: 60000 },
+      retryable,
+      () => controller.abort(new Error("deadline")),
+      controller.signal
+    );
+
+    await expect(run).rejects.toThrow("deadline");
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Retry limits for transient failures
+ */
+export interface RetryOptions {
+  // Total attempts including the first one; 1 disables retries
+  attempts: number;
+  // Delay before the first retry, doubled for every further retry
+  baseDelayMs: number;
+  // Upper bound for a single delay, including a requested Retry-After
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  attempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+};
+
+/**
+ * Delay before retry number `retry` (1-based) using exponential backoff with
+ * equal jitter: half the backoff is fixed, the other half random. A delay
+ * requested by the server takes precedence; both are capped at maxDelayMs.
+ */
+export function retryDelay(
+  retry: number,
+  options: RetryOptions,
+  retryAfterMs?: number,
+  random: () => number = Math.random
+): number {
+  if (retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, options.maxDelayMs);
+  }
+  const backoff = Math.min(options.baseDelayMs * 2 ** (retry - 1), options.maxDelayMs);
+  return backoff / 2 + random() * (backoff / 2);
+}
+
+/**
+ * Run fn, retrying while classify() reports the error as retryable
+ * onRetry is called before every delay. Aborting the signal stops waiting and
+ * rejects with the signal's reason.
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  options: RetryOptions,
+  classify: (error: unknown) => { retryable: boolean; reason: string; retryAfterMs?: number },
+  onRetry?: (retry: number, reason: string, delayMs: number, error: unknown) => void,
+  signal?: AbortSignal
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      const decision = classify(error);
+      if (!decision.retryable || attempt >= options.attempts || signal?.aborted) {
+        throw error;
+      }
+
+      const delay = retryDelay(attempt, options, decision.retryAfterMs);
+      onRetry?.(attempt, decision.reason, delay, error);
+      await sleep(delay, signal);
+    }
+  }
+}
+
+/**
+ * Wait for ms milliseconds, rejecting with the abort reason if the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
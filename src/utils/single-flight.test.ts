@@ -0,0 +1,127 @@
+import { describe, test, expect } from "bun:test";
+import { SingleFlight } from "./single-flight";
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((r) => (resolve = r));
+  return { promise, resolve };
+}
+
+describe("SingleFlight", () => {
+  test("should share one call between concurrent callers of a key", async () => {
+    const flights = new SingleFlight<string>();
+    const result = deferred<string>();
+    let calls = 0;
+    const fn = () => {
+      calls++;
+      return result.promise;
+    };
+
+    const first = flights.run("a", fn);
+    const second = flights.run("a", fn);
+    expect(flights.has("a")).toBe(true);
+
+    result.resolve("done");
+    expect(await Promise.all([first, second])).toEqual(["done", "done"]);
+    expect(calls).toBe(1);
+    expect(flights.size).toBe(0);
+  });
+
+  test("should run again once the previous call finished", async () => {
+    const flights = new SingleFlight<number>();
+    let calls = 0;
+    const fn = async () => ++calls;
+
+    expect(await flights.run("a", fn)).toBe(1);
+    expect(await flights.run("a", fn)).toBe(2);
+  });
+
+  test("should share rejections", async () => {
+    const flights = new SingleFlight<string>();
+    const fn = async () => {
+      throw new Error("boom");
+    };
+
+    const results = await Promise.allSettled([flights.run("a", fn), flights.run("a", fn)]);
+    expect(results.map((r) => r.status)).toEqual(["rejected", "rejected"]);
+  });
+
+  test("should let one caller give up without aborting the shared call", async () => {
+    const flights = new SingleFlight<string>();
+    const result = deferred<string>();
+    let sharedSignal: AbortSignal | undefined;
+    const fn = (signal: AbortSignal) => {
+      sharedSignal = signal;
+      return result.promise;
+    };
+
+    const controller = new AbortController();
+    const impatient = flights.run("a", fn, controller.signal);
+    const patient = flights.run("a", fn, new AbortController().signal);
+
+    controller.abort(new Error("deadline"));
+    await expect(impatient).rejects.toThrow("deadline");
+    expect(sharedSignal!.aborted).toBe(false);
+
+    result.resolve("done");
+    expect(await patient).toBe("done");
+  });
+
+  test("should abort the shared call once every caller gave up", async () => {
+    const flights = new SingleFlight<string>();
+    let sharedSignal: AbortSignal | undefined;
+    const fn = (signal: AbortSignal) => {
+      sharedSignal = signal;
+      return new Promise<string>(() => {});
+    };
+
+    const first = new AbortController();
+    const second = new AbortController();
+    const runs = [flights.run("a", fn, first.signal), flights.run("a", fn, second.signal)];
+
+    first.abort();
+    expect(sharedSignal!.aborted).toBe(false);
+    second.abort();
+    expect(sharedSignal!.aborted).toBe(true);
+    await Promise.allSettled(runs);
+  });
+
+  test("should start a new call after the shared call was aborted", async () => {
+    const flights = new SingleFlight<string>();
+    let calls = 0;
+    const hanging = () => {
+      calls++;
+      return new Promise<string>(() => {});
+    };
+
+    const controller = new AbortController();
+    const aborted = flights.run("a", hanging, controller.signal);
+    controller.abort(new Error("deadline"));
+    await expect(aborted).rejects.toThrow("deadline");
+    expect(flights.has("a")).toBe(false);
+
+    expect(await flights.run("a", async () => "fresh", new AbortController().signal)).toBe("fresh");
+    expect(calls).toBe(1);
+  });
+
+  test("should let detached calls finish once every caller gave up", async () => {
+    const flights = new SingleFlight<string>({ detached: true });
+    const result = deferred<string>();
+    let sharedSignal: AbortSignal | undefined;
+    const fn = (signal: AbortSignal) => {
+      sharedSignal = signal;
+      return result.promise;
+    };
+
+    const controller = new AbortController();
+    const run = flights.run("a", fn, controller.signal);
+    controller.abort(new Error("deadline"));
+
+    await expect(run).rejects.toThrow("deadline");
+    expect(sharedSignal!.aborted).toBe(false);
+    expect(flights.has("a")).toBe(true);
+
+    result.resolve("done");
+    expect(await flights.run("a", fn)).toBe("done");
+  });
+});
@@ -0,0 +1,85 @@
+interface Flight<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  // Callers still waiting that can abort; callers without a signal never do
+  abortable: number;
+  unbounded: boolean;
+}
+
+export interface SingleFlightOptions {
+  // Let operations every caller gave up on run to completion instead of aborting them
+  detached?: boolean;
+}
+
+/**
+ * Coalesce concurrent calls for the same key into one in-flight operation
+ * Every caller receives the shared result. Callers can give up individually by
+ * aborting their own signal; the operation itself is only aborted once every
+ * waiting caller has given up, unless it runs detached.
+ */
+export class SingleFlight<T> {
+  private flights = new Map<string, Flight<T>>();
+
+  constructor(private options: SingleFlightOptions = {}) {}
+
+  /**
+   * Run fn for key, or join the call already in flight for it
+   * Rejects with the caller's abort reason when its signal aborts first
+   */
+  async run(key: string, fn: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    signal?.throwIfAborted();
+
+    let flight = this.flights.get(key);
+    if (!flight) {
+      const controller = new AbortController();
+      const created: Flight<T> = { promise: Promise.resolve(undefined as T), controller, abortable: 0, unbounded: false };
+      created.promise = fn(controller.signal).finally(() => {
+        if (this.flights.get(key) === created) this.flights.delete(key);
+      });
+      this.flights.set(key, created);
+      flight = created;
+    }
+
+    if (!signal) {
+      flight.unbounded = true;
+      return flight.promise;
+    }
+
+    const joined = flight;
+    joined.abortable++;
+    let onAbort: (() => void) | undefined;
+    const aborted = new Promise<never>((_, reject) => {
+      onAbort = () => {
+        reject(signal.reason);
+        joined.abortable--;
+        if (joined.abortable === 0 && !joined.unbounded && !this.options.detached) {
+          // Later callers start over instead of joining the aborted call
+          if (this.flights.get(key) === joined) this.flights.delete(key);
+          joined.controller.abort(signal.reason);
+        }
+      };
+      signal.addEventListener("abort", onAbort, { once: true });
+    });
+
+    try {
+      return await Promise.race([joined.promise, aborted]);
+    } finally {
+      if (!signal.aborted) joined.abortable--;
+      signal.removeEventListener("abort", onAbort!);
+    }
+  }
+
+  /**
+   * Check whether a call for key is in flight
+   */
+  has(key: string): boolean {
+    return this.flights.has(key);
+  }
+
+  /**
+   * Number of calls in flight
+   */
+  get size(): number {
+    return this.flights.size;
+  }
+}
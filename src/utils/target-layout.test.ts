@@ -0,0 +1,55 @@
+import { describe, test, expect } from "bun:test";
+import { applyTargetLayout, resolveTargetLayout } from "./target-layout";
+import { parseImageReference } from "./image-parser";
+
+describe("resolveTargetLayout", () => {
+  test("should default to the legacy layout", () => {
+    expect(resolveTargetLayout(undefined)).toBe("{repository}");
+  });
+
+  test("should resolve named layouts", () => {
+    expect(resolveTargetLayout("registry")).toBe("{registry}/{repository}");
+    expect(resolveTargetLayout("flat")).toBe("{flat}");
+  });
+
+  test("should accept custom templates", () => {
+    expect(resolveTargetLayout("mirror/{registry}/{repository}")).toBe("mirror/{registry}/{repository}");
+  });
+
+  test("should reject unknown placeholders", () => {
+    expect(() => resolveTargetLayout("{registry}/{repo}")).toThrow("Unknown placeholder");
+  });
+
+  test("should reject templates without the repository", () => {
+    expect(() => resolveTargetLayout("mirror/{registry}")).toThrow("must contain");
+  });
+});
+
+describe("applyTargetLayout", () => {
+  const dockerHub = parseImageReference("nginx:1.25");
+  const quay = parseImageReference("quay.io/library/nginx:1.25");
+
+  test("should keep the legacy layout", () => {
+    expect(applyTargetLayout("{repository}", dockerHub)).toBe("library/nginx");
+    expect(applyTargetLayout("{repository}", quay)).toBe("library/nginx");
+  });
+
+  test("should avoid collisions with the registry layout", () => {
+    expect(applyTargetLayout("{registry}/{repository}", dockerHub)).toBe("docker.io/library/nginx");
+    expect(applyTargetLayout("{registry}/{repository}", quay)).toBe("quay.io/library/nginx");
+  });
+
+  test("should flatten into a single path component", () => {
+    expect(applyTargetLayout("{flat}", quay)).toBe("quay.io_library_nginx");
+  });
+
+  test("should support fixed prefixes and image names", () => {
+    expect(applyTargetLayout("mirror/{registry}/{repository}", quay)).toBe("mirror/quay.io/library/nginx");
+    expect(applyTargetLayout("base/{name}", parseImageReference("gcr.io/distroless/static:nonroot"))).toBe("base/static");
+  });
+
+  test("should make registry ports path safe", () => {
+    const local = parseImageReference("localhost:5000/team/app:v1");
+    expect(applyTargetLayout("{registry}/{repository}", local)).toBe("localhost-5000/team/app");
+  });
+});
@@ -0,0 +1,68 @@
+import type { ImageReference } from "../types";
+import { getDisplayRegistry } from "./image-parser";
+
+/**
+ * Named target repository layouts
+ * - legacy: target/<repository> (drops the source registry, kept for existing mirrors)
+ * - registry: target/<registry>/<repository>
+ * - flat: target/<registry>_<repository with "/" replaced by "_">
+ */
+export const TARGET_LAYOUTS: Record<string, string> = {
+  legacy: "{repository}",
+  registry: "{registry}/{repository}",
+  flat: "{flat}",
+};
+
+const PLACEHOLDERS = ["registry", "repository", "name", "flat"];
+
+/**
+ * Resolve a layout name or custom template into a template string
+ * Custom templates may use {registry}, {repository}, {name} and {flat},
+ * e.g. "mirror/{registry}/{repository}"
+ */
+export function resolveTargetLayout(layout: string | undefined): string {
+  if (!layout) {
+    return TARGET_LAYOUTS.legacy;
+  }
+
+  const template = TARGET_LAYOUTS[layout] || layout;
+
+  const placeholders = [...template.matchAll(/\{([^}]*)\}/g)].map((match) => match[1]);
+  const unknown = placeholders.filter((name) => !PLACEHOLDERS.includes(name));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown placeholder(s) in target layout "${layout}": ${unknown.join(", ")}`);
+  }
+
+  if (!placeholders.some((name) => name === "repository" || name === "name" || name === "flat")) {
+    throw new Error(`Target layout "${layout}" must contain {repository}, {name} or {flat}`);
+  }
+
+  return template;
+}
+
+/**
+ * Build the target repository path for a source image from a layout template
+ */
+export function applyTargetLayout(template: string, imageRef: ImageReference): string {
+  const registry = formatRegistryForPath(imageRef.registry);
+  const values: Record<string, string> = {
+    registry,
+    repository: imageRef.repository,
+    name: imageRef.repository.substring(imageRef.repository.lastIndexOf("/") + 1),
+    flat: `${registry}/${imageRef.repository}`.replace(/\//g, "_"),
+  };
+
+  return template
+    .replace(/\{(\w+)\}/g, (_, name: string) => values[name])
+    .replace(/\/{2,}/g, "/")
+    .replace(/^\/|\/$/g, "")
+    .toLowerCase();
+}
+
+/**
+ * Format a registry host so it is valid as a repository path component
+ */
+function formatRegistryForPath(registry: string): string {
+  // Ports are not allowed in repository paths (localhost:5000 -> localhost-5000)
+  return getDisplayRegistry(registry).replace(/:/g, "-");
+}